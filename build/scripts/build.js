@@ -1,8 +1,10 @@
+const path = require('path');
 const rollup = require('rollup');
 const typescript = require('rollup-plugin-typescript2');
 const rimraf = require('rimraf');
 
 const LIB_NAME = 'aurelia-router';
+const TESTING_NAME = 'testing';
 const cacheRoot = '.rollupcache';
 const externalLibs = [
   'aurelia-dependency-injection',
@@ -11,6 +13,14 @@ const externalLibs = [
   'aurelia-history',
   'aurelia-route-recognizer'
 ];
+const mainEntry = path.resolve(`src/${LIB_NAME}`);
+
+/**
+ * The testing entry point imports the main entry point as the published package, instead of bundling a copy of it
+ */
+const testingExternal = (id, parentId) => externalLibs.includes(id)
+  || !!parentId && id.startsWith('.') && path.resolve(path.dirname(parentId), id) === mainEntry;
+const testingPaths = id => id === mainEntry ? LIB_NAME : id;
 
 clean().then(build).then(generateDts);
 
@@ -49,12 +59,23 @@ function generateDts() {
 function build() {
   console.log('\n==============\nBuidling...\n==============');
   return Promise.all([
+    ...createBuildConfigs(LIB_NAME, externalLibs),
+    ...createBuildConfigs(TESTING_NAME, testingExternal, testingPaths)
+  ].map(cfg => {
+    return rollup
+      .rollup(cfg)
+      .then(bundle => Promise.all(cfg.output.map(o => bundle.write(o))));
+  }));
+};
+
+function createBuildConfigs(name, external, paths) {
+  return [
     {
-      input: `src/${LIB_NAME}.ts`,
+      input: `src/${name}.ts`,
       output: [
-        { file: `dist/es2015/${LIB_NAME}.js`, format: 'es', sourcemap: true }
+        { file: `dist/es2015/${name}.js`, format: 'es', sourcemap: true, paths }
       ],
-      external: externalLibs,
+      external: external,
       plugins: [
         typescript({
           tsconfigOverride: {
@@ -67,13 +88,13 @@ function build() {
       ]
     },
     {
-      input: `src/${LIB_NAME}.ts`,
+      input: `src/${name}.ts`,
       output: [
-        { file: `dist/commonjs/${LIB_NAME}.js`, format: 'cjs', sourcemap: true },
-        { file: `dist/amd/${LIB_NAME}.js`, format: 'amd', amd: { id: LIB_NAME }, sourcemap: true },
-        { file: `dist/native-modules/${LIB_NAME}.js`, format: 'es', sourcemap: true }
+        { file: `dist/commonjs/${name}.js`, format: 'cjs', sourcemap: true, paths },
+        { file: `dist/amd/${name}.js`, format: 'amd', amd: { id: name === LIB_NAME ? LIB_NAME : `${LIB_NAME}/${name}` }, sourcemap: true, paths },
+        { file: `dist/native-modules/${name}.js`, format: 'es', sourcemap: true, paths }
       ],
-      external: externalLibs,
+      external: external,
       plugins: [
         typescript({
           useTsconfigDeclarationDir: true,
@@ -86,9 +107,5 @@ function build() {
         }),
       ]
     }
-  ].map(cfg => {
-    return rollup
-      .rollup(cfg)
-      .then(bundle => Promise.all(cfg.output.map(o => bundle.write(o))));
-  }));
-};
+  ];
+}
@@ -6,9 +6,17 @@ import { PipelineProvider } from './pipeline-provider';
 import { isNavigationCommand } from './navigation-commands';
 import { EventAggregator } from 'aurelia-event-aggregator';
 import { NavigationInstruction } from './navigation-instruction';
-import { ViewPort, ConfiguresRouter, PipelineResult } from './interfaces';
+import { ViewPort, ConfiguresRouter, PipelineResult, PipelineStep, PipelineStepTiming, StepRunnerFunction } from './interfaces';
 import { RouterEvent } from './router-event';
+import { PipelineStatus } from './pipeline-status';
 import { RouterConfiguration } from './router-configuration';
+import { BuildNavigationPlanStep } from './step-build-navigation-plan';
+import { LoadRouteStep } from './step-load-route';
+import { CanActivateNextStep, DeactivatePreviousStep, ActivateNextStep } from './step-activation';
+import { CommitChangesStep } from './step-commit-changes';
+import { schedulePreloading } from './route-preloader';
+import { NavigationHistory } from './navigation-history';
+import { formatLocation } from './auxiliary-routes';
 
 /**@internal */
 declare module 'aurelia-dependency-injection' {
@@ -34,6 +42,16 @@ export class AppRouter extends Router {
   _queue: NavigationInstruction[];
   /**@internal */
   isActive: boolean;
+  /**
+   * The instruction currently running through the pipeline
+   * @internal
+   */
+  _navigatingInstruction: NavigationInstruction;
+
+  /**
+   * The stack of committed navigations, following the back and forward navigations of the browser history.
+   */
+  navigationHistory: NavigationHistory;
 
   constructor(container: Container, history: History, pipelineProvider: PipelineProvider, events: EventAggregator) {
     super(container, history); // Note the super will call reset internally.
@@ -48,6 +66,7 @@ export class AppRouter extends Router {
   reset(): void {
     super.reset();
     this.maxInstructionCount = 10;
+    this.navigationHistory = new NavigationHistory(this);
     if (!this._queue) {
       this._queue = [];
     } else {
@@ -153,6 +172,10 @@ export class AppRouter extends Router {
     return new Promise((resolve) => {
       instruction.resolve = resolve;
       this._queue.unshift(instruction);
+      // a newer navigation supersedes the one still running through the pipeline
+      if (this.isNavigating && this._navigatingInstruction) {
+        this._navigatingInstruction._supersede();
+      }
       this._dequeueInstruction();
     });
   }
@@ -210,14 +233,35 @@ export class AppRouter extends Router {
       }
 
       let pipeline = this.pipelineProvider.createPipeline(!this.couldDeactivate);
+      pipeline._onStepComplete = (step, timing) => publishStepEvent(this, instruction, step, timing);
+      this._navigatingInstruction = instruction;
+
+      // past this point, the pipeline is done with this instruction and there is nothing left to abort,
+      // whether it succeeded or failed
+      let forgetNavigatingInstruction = () => {
+        if (this._navigatingInstruction === instruction) {
+          this._navigatingInstruction = null;
+        }
+      };
 
       return pipeline
         .run(instruction)
+        .then(
+          result => (forgetNavigatingInstruction(), result),
+          error => (forgetNavigatingInstruction(), Promise.reject(error))
+        )
         .then(result => processResult(instruction, result, instructionCount, this))
         .catch(error => {
           return { output: error instanceof Error ? error : new Error(error) } as PipelineResult;
         })
-        .then(result => resolveInstruction(instruction, result, !!instructionCount, this));
+        .then(result => resolveInstruction(instruction, result, !!instructionCount, this))
+        .then(result => {
+          // the navigation that superseded this one is processed as a navigation on its own
+          if (!instructionCount && result.status === PipelineStatus.Superseded) {
+            this._dequeueInstruction();
+          }
+          return result;
+        });
     });
   }
 
@@ -255,6 +299,11 @@ const processResult = (
     result.output = new Error(`Expected router pipeline to return a navigation result, but got [${JSON.stringify(result)}] instead.`);
   }
 
+  if (result.status === PipelineStatus.Superseded) {
+    // nothing to restore, the location already belongs to the newer navigation
+    return Promise.resolve(result);
+  }
+
   let finalResult: PipelineResult = null;
   let navigationCommandResult = null;
   if (isNavigationCommand(result.output)) {
@@ -299,14 +348,17 @@ const resolveInstruction = (
 
     let eventName: string;
 
-    if (result.output instanceof Error) {
+    if (result.status === PipelineStatus.Superseded) {
+      eventName = RouterEvent.Superseded;
+    } else if (result.output instanceof Error) {
       eventName = RouterEvent.Error;
     } else if (!result.completed) {
       eventName = RouterEvent.Canceled;
     } else {
-      let queryString = instruction.queryString ? ('?' + instruction.queryString) : '';
-      router.history.previousLocation = instruction.fragment + queryString;
+      router.history.previousLocation = formatLocation(instruction);
       eventName = RouterEvent.Success;
+      router.navigationHistory._record(instruction, router.currentNavigationTracker);
+      schedulePreloading(router, instruction);
     }
 
     eventAggregator.publish(eventName, eventArgs);
@@ -318,6 +370,32 @@ const resolveInstruction = (
   return result;
 };
 
+/**
+ * The events published when a built-in step of the pipeline continues to the next step
+ */
+const stepEvents: [Function, RouterEvent][] = [
+  [BuildNavigationPlanStep, RouterEvent.PlanBuilt],
+  [LoadRouteStep, RouterEvent.RouteLoaded],
+  [CanActivateNextStep, RouterEvent.GuardsChecked],
+  [DeactivatePreviousStep, RouterEvent.Deactivated],
+  [ActivateNextStep, RouterEvent.Activated],
+  [CommitChangesStep, RouterEvent.Committed]
+];
+
+const publishStepEvent = (
+  router: AppRouter,
+  instruction: NavigationInstruction,
+  step: StepRunnerFunction | PipelineStep,
+  timing: PipelineStepTiming
+): void => {
+  for (let [stepType, eventName] of stepEvents) {
+    if (step instanceof stepType) {
+      router.events.publish(eventName, { instruction, timing });
+      return;
+    }
+  }
+};
+
 const restorePreviousLocation = (router: AppRouter): void => {
   let previousLocation = router.history.previousLocation;
   if (previousLocation) {
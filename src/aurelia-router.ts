@@ -4,12 +4,49 @@ export {
   RoutableComponentCanDeactivate,
   RoutableComponentDeactivate,
   RoutableComponentDetermineActivationStrategy,
+  RoutableComponentQueryParamsChanged,
+  RoutableComponentAttachedFromCache,
+  RoutableComponentDetachedToCache,
   ConfiguresRouter,
   RouteConfig,
+  QueryParamsBehavior,
+  RouteParamTypeName,
+  RouteParamType,
+  RouteParamConstraint,
+  RouteParamsSchema,
+  RouteResolver,
+  RouteGuard,
+  Guard,
+  PreloadingStrategy,
+  QuerySerializer,
+  QueryStringCodec,
+  RouteScrollBehavior,
+  ScrollPosition,
+  TransitionMode,
+  ViewPortTransition,
+  RouteTransitionConfig,
+  GenerateOptions,
+  AuxiliaryRouteTarget,
+  RouteDiagnostic,
+  RouteConfigProblem,
+  RouteManifest,
+  RouteManifestRoute,
+  RouteTreeNode,
+  ActiveRouteState,
+  RouteDiagnosticKind,
   NavigationResult,
+  NavigationHistoryEntry,
+  MemoryHistoryEntry,
+  HistoryCapabilities,
   Next,
   PipelineResult,
-  PipelineStep
+  PipelineStep,
+  PipelineStepRef,
+  PipelineStepOptions,
+  PipelineStepDescription,
+  PipelineSlotOptions,
+  PipelineStepTiming,
+  PipelineTimings
   // following are excluded and wait for more proper chance to be introduced for stronger typings story
   // this is to avoid any typings issue for a long delayed release
   /**
@@ -25,6 +62,7 @@ export {
 } from './utilities-activation';
 export { AppRouter } from './app-router';
 export { NavModel } from './nav-model';
+export { NavigationHistory } from './navigation-history';
 export { Redirect, RedirectToRoute, NavigationCommand, isNavigationCommand } from './navigation-commands';
 
 export {
@@ -42,6 +80,8 @@ export {
 export { CommitChangesStep } from './step-commit-changes';
 export { BuildNavigationPlanStep } from './step-build-navigation-plan';
 export { LoadRouteStep } from './step-load-route';
+export { ResolveDataStep } from './step-resolve-data';
+export { SaveScrollPositionStep, RestoreScrollPositionStep } from './step-scroll';
 
 export {
   ActivationStrategy,
@@ -63,5 +103,16 @@ export {
 export { PipelineProvider } from './pipeline-provider';
 export { Pipeline } from './pipeline';
 export { RouteLoader } from './route-loader';
+export { RoutePreloader } from './route-preloader';
+export { ScrollHandler } from './scroll-handler';
+export { TransitionCoordinator } from './transition-coordinator';
+export { KeepAliveCache } from './keep-alive-cache';
 export { RouterConfiguration } from './router-configuration';
+export { diagnoseRoutes } from './route-diagnostics';
+export { validateRoutes, validateRouterConfiguration } from './route-config-validator';
+export { RouteRegistry, NavigationStrategy } from './route-registry';
+export { exportRouteManifest } from './route-manifest';
+export { routeManifestSchema } from './route-manifest-schema';
+export { MemoryHistory } from './memory-history';
+export { usesPushState } from './history-capabilities';
 export { Router } from './router';
@@ -0,0 +1,101 @@
+import { RouteConfig } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+import { Router } from './router';
+
+/**
+ * Splits the auxiliary routes off a URL. Auxiliary routes are listed between parentheses at the end of the path,
+ * separated by `//`, each prefixed by the name of the view port it targets, e.g. `inbox(sidebar:chat/42//footer:status)`.
+ *
+ * @returns the URL without its auxiliary routes, and the paths of the auxiliary routes keyed by view port name.
+ * @internal exported for unit testing
+ */
+export const splitAuxiliaryRoutes = (url: string): { url: string; auxiliaryRoutes: Record<string, string> } => {
+  let queryIndex = url.indexOf('?');
+  let path = queryIndex === -1 ? url : url.substr(0, queryIndex);
+  let groupIndex = path.indexOf('(');
+  if (groupIndex === -1 || path[path.length - 1] !== ')') {
+    return { url, auxiliaryRoutes: {} };
+  }
+
+  let auxiliaryRoutes: Record<string, string> = {};
+  for (let auxiliaryRoute of path.slice(groupIndex + 1, -1).split('//')) {
+    let separatorIndex = auxiliaryRoute.indexOf(':');
+    if (separatorIndex < 1) {
+      // not an auxiliary route group, the parentheses are part of the path
+      return { url, auxiliaryRoutes: {} };
+    }
+    auxiliaryRoutes[auxiliaryRoute.substr(0, separatorIndex)] = auxiliaryRoute.substr(separatorIndex + 1);
+  }
+
+  return { url: path.substr(0, groupIndex) + url.substr(path.length), auxiliaryRoutes };
+};
+
+/**
+ * Formats the paths of auxiliary routes, keyed by view port name, as the group appended to the path of a URL.
+ * @internal
+ */
+export const formatAuxiliaryRoutes = (auxiliaryRoutes: Record<string, string>): string => {
+  let routes = Object.keys(auxiliaryRoutes).map(viewPortName => `${viewPortName}:${auxiliaryRoutes[viewPortName]}`);
+  return routes.length ? `(${routes.join('//')})` : '';
+};
+
+/**
+ * Formats the location of an instruction or of a navigation history entry:
+ * its fragment, followed by its auxiliary routes and its query string.
+ * @internal
+ */
+export const formatLocation = (
+  location: { fragment: string; queryString: string; auxiliaryRoutes?: Record<string, string> }
+): string => {
+  let queryString = location.queryString ? ('?' + location.queryString) : '';
+  let auxiliaryRoutes = location.auxiliaryRoutes ? formatAuxiliaryRoutes(location.auxiliaryRoutes) : '';
+  return location.fragment + auxiliaryRoutes + queryString;
+};
+
+/**
+ * Recognizes the auxiliary routes of a URL with the router of an instruction, and adds an instruction for each of them
+ * to the instruction, for its view port to load the module of the auxiliary route with the params of the auxiliary route.
+ * @internal
+ */
+export const addAuxiliaryInstructions = (
+  router: Router,
+  instruction: NavigationInstruction,
+  auxiliaryRoutes: Record<string, string>
+): NavigationInstruction => {
+  let previousInstruction = instruction.previousInstruction;
+
+  for (let viewPortName in auxiliaryRoutes) {
+    let path = auxiliaryRoutes[viewPortName];
+    let results = router._recognize(path);
+    let config: RouteConfig = results && results.length ? (results[0].config || results[0].handler) as RouteConfig : null;
+    if (!config) {
+      throw new Error(`Route not found: ${path}`);
+    }
+    if (!config.viewPorts) {
+      throw new Error(`The auxiliary route "${path}" must specify a "moduleId:" or "viewPorts:".`);
+    }
+
+    instruction.auxiliaryInstructions[viewPortName] = new NavigationInstruction({
+      fragment: path,
+      queryString: instruction.queryString,
+      params: results[0].params,
+      queryParams: instruction.queryParams,
+      config,
+      parentInstruction: instruction.parentInstruction,
+      previousInstruction: previousInstruction && previousInstruction.auxiliaryInstructions[viewPortName],
+      router,
+      options: instruction.options
+    });
+  }
+
+  return instruction;
+};
+
+/**
+ * Gets the view port config an auxiliary route loads in the view port it targets.
+ * @internal
+ */
+export const getAuxiliaryViewPortConfig = (config: RouteConfig): RouteConfig => {
+  let viewPorts = config.viewPorts as Record<string, RouteConfig>;
+  return viewPorts.default || viewPorts[Object.keys(viewPorts)[0]];
+};
@@ -0,0 +1,31 @@
+import { History } from 'aurelia-history';
+import { HistoryCapabilities } from './interfaces';
+
+/**
+ * Determines whether a history navigates with the pushState API rather than with the hash of the URL.
+ *
+ * @param history The history, asked through [[HistoryCapabilities]] when it implements them.
+ */
+export const usesPushState = (history: History): boolean => {
+  let capabilities = history as History & Partial<HistoryCapabilities>;
+  if (typeof capabilities.usesPushState === 'function') {
+    return capabilities.usesPushState();
+  }
+  // the flag set by the browser history of aurelia-history-browser once activated
+  return !!history._hasPushState;
+};
+
+/**
+ * Moves across the entries of a history in a single traversal, when the history implements [[HistoryCapabilities.go]].
+ *
+ * @returns Whether the history supports it.
+ * @internal exported for use in other modules
+ */
+export const traverseHistory = (history: History, delta: number): boolean => {
+  let capabilities = history as History & Partial<HistoryCapabilities>;
+  if (typeof capabilities.go !== 'function') {
+    return false;
+  }
+  capabilities.go(delta);
+  return true;
+};
@@ -7,6 +7,7 @@ import { NavigationCommand } from './navigation-commands';
 import { IObservable } from './utilities-activation';
 import { PipelineStatus } from './pipeline-status';
 import { ActivationStrategyType } from './activation-strategy';
+import { TransitionCoordinator } from './transition-coordinator';
 
 /**@internal */
 declare module 'aurelia-dependency-injection' {
@@ -65,6 +66,40 @@ export interface RouteConfig {
    */
   moduleId?: string;
 
+  /**
+   * Constraints on the values of the route pattern's parameters, keyed by parameter name. A URL with parameter values
+   * rejected by a constraint is not matched by this route, and falls through to the next matching route or the unknown route handler.
+   * Accepted values are converted before they reach the lifecycle hooks, and converted back when generating URLs.
+   */
+  params?: RouteParamsSchema;
+
+  /**
+   * Data resolvers to run before activation, keyed by the name of the data. Resolvers of a navigation run in parallel,
+   * and their results are available as [[NavigationInstruction.resolvedData]], which is also passed as the fourth argument
+   * of the `canActivate` and `activate` hooks. A rejection cancels the navigation, and a returned [[NavigationCommand]]
+   * (such as a [[Redirect]]) is processed as if returned by a `canActivate` hook.
+   */
+  resolve?: Record<string, RouteResolver>;
+
+  /**
+   * Guards controlling whether this route can be navigated to, run in order before the `canActivate` hooks of its view models.
+   * Guards are resolved from the router's [[Container]], and also apply to the routes of child routers.
+   */
+  canActivate?: Guard[];
+
+  /**
+   * Guards controlling whether the router can navigate away from this route, run in order after the `canDeactivate` hooks
+   * of its view models. Guards are resolved from the router's [[Container]], and also apply to the routes of child routers.
+   */
+  canDeactivate?: Guard[];
+
+  /**
+   * Child routes, or a function resolving them, registered with the child router of this route before its view model
+   * is loaded. This allows generating URLs of child routes, with a `parent/child` route name path, before the first
+   * navigation to this route. The view model can still configure additional child routes with `configureRouter`.
+   */
+  children?: RouteConfig[] | (() => RouteConfig[] | Promise<RouteConfig[]> | PromiseLike<RouteConfig[]>);
+
   /**
    * A URL fragment to redirect to when this route is matched.
    */
@@ -125,12 +160,39 @@ export interface RouteConfig {
    */
   caseSensitive?: boolean;
 
+  /**
+   * The priority of the route when several routes of a router match a URL. Routes with a higher priority are matched first,
+   * and routes with the same priority are matched by specificity: static segments over dynamic segments over wildcards.
+   * Defaults to 0.
+   */
+  priority?: number;
+
   /**
    * Add to specify an activation strategy if it is always the same and you do not want that
    * to be in your view-model code. Available values are 'replace' and 'invoke-lifecycle'.
    */
   activationStrategy?: ActivationStrategyType;
 
+  /**
+   * How navigations that only change the query params of the route are handled:
+   * 'ignore' does not activate the route again, 'invoke-lifecycle' invokes the lifecycle hooks of its view models,
+   * and 'notify' skips loading and activation, and calls `queryParamsChanged` on its view models.
+   * Defaults to 'invoke-lifecycle' when `compareQueryParams` is enabled on the router, and 'ignore' otherwise.
+   */
+  queryParamsBehavior?: QueryParamsBehavior;
+
+  /**
+   * Keeps the components of the route when they are replaced, so navigating back to the route with the same params
+   * displays them again with their state intact, instead of loading and activating new ones.
+   * Up to 10 components are kept for the route, or `max` components.
+   */
+  keepAlive?: boolean | { max: number };
+
+  /**
+   * Coordinates the swaps of the view ports of the route, when it is navigated to.
+   */
+  transition?: RouteTransitionConfig;
+
   /**
    * specifies the file name of a layout view to use.
    */
@@ -154,6 +216,396 @@ export interface RouteConfig {
   [x: string]: any;
 }
 
+/**
+ * Names of the built-in route parameter types
+ */
+export type RouteParamTypeName = 'int' | 'number' | 'boolean' | 'string';
+
+/**
+ * A custom route parameter type
+ */
+export interface RouteParamType {
+  /**
+   * Converts a parameter value from the URL. Return `undefined` (or throw) to reject the value.
+   */
+  parse(value: string): any;
+
+  /**
+   * Converts a parameter value back to its URL representation. Defaults to `String(value)`.
+   */
+  serialize?(value: any): string;
+}
+
+/**
+ * A constraint on a route parameter. Either the name of a built-in type, a regular expression the value
+ * must match, a parser function (returning `undefined` to reject the value), or a custom parameter type.
+ */
+export type RouteParamConstraint = RouteParamTypeName | RegExp | ((value: string) => any) | RouteParamType;
+
+/**
+ * Constraints on the parameters of a route pattern, keyed by parameter name
+ */
+export type RouteParamsSchema = Record<string, RouteParamConstraint>;
+
+/**
+ * A function resolving data for a route before it is activated
+ */
+export type RouteResolver = (params: Record<string, any>, navigationInstruction: NavigationInstruction) => any;
+
+/**
+ * A guard declared on a [[RouteConfig]]. Its hooks accept the same return values as the view model hooks.
+ */
+export interface RouteGuard {
+  /**
+   * Invoked when navigating to a route declaring this guard in its `canActivate` list.
+   */
+  canActivate?(
+    params: any,
+    routeConfig: RouteConfig,
+    navigationInstruction: NavigationInstruction,
+    resolvedData?: Record<string, any>
+  ): boolean | Promise<boolean> | PromiseLike<boolean> | NavigationCommand | Promise<NavigationCommand> | PromiseLike<NavigationCommand> | IObservable;
+
+  /**
+   * Invoked when navigating away from a route declaring this guard in its `canDeactivate` list.
+   */
+  canDeactivate?(
+    navigationInstruction: NavigationInstruction
+  ): boolean | Promise<boolean> | PromiseLike<boolean> | NavigationCommand | Promise<NavigationCommand> | PromiseLike<NavigationCommand> | IObservable;
+}
+
+/**
+ * A route guard, or a class of route guard to resolve from the router's [[Container]]
+ */
+export type Guard = RouteGuard | (new (...args: any[]) => RouteGuard);
+
+/**
+ * A route of a router, and the routes of its known child routers, as returned by [[Router.getRouteTree]].
+ */
+export interface RouteTreeNode {
+  /**
+   * The name of the route.
+   */
+  name?: string;
+
+  /**
+   * The route pattern, or the patterns of a route mapped with several.
+   */
+  route: string | string[];
+
+  /**
+   * The moduleIds loaded by the route, keyed by view port name.
+   */
+  viewPorts: Record<string, string | null>;
+
+  /**
+   * The distinct moduleIds loaded by the route.
+   */
+  moduleIds: string[];
+
+  /**
+   * Whether the route is included in the navigation model of its router.
+   */
+  nav: boolean;
+
+  /**
+   * The href of the route in the navigation model, if included.
+   */
+  href?: string;
+
+  /**
+   * The URL fragment the route redirects to, if any.
+   */
+  redirect?: string;
+
+  /**
+   * The routes of the child router of the route: the routes declared with `children`, and those of a child router
+   * configured by a loaded view model of the route.
+   */
+  children: RouteTreeNode[];
+}
+
+/**
+ * A route of the active navigation, as returned by [[Router.describeActiveState]].
+ */
+export interface ActiveRouteState {
+  /**
+   * The name of the route.
+   */
+  name?: string;
+
+  /**
+   * The route pattern.
+   */
+  route: string;
+
+  /**
+   * The URL fragment matched by the route.
+   */
+  fragment: string;
+
+  /**
+   * The params of the route pattern.
+   */
+  params: Record<string, any>;
+
+  /**
+   * The query params of the navigation.
+   */
+  queryParams: Record<string, any>;
+
+  /**
+   * The moduleIds loaded by the route, keyed by view port name.
+   */
+  viewPorts: Record<string, string>;
+
+  /**
+   * The nesting level of the route's router, 0 for the router the description was requested from.
+   */
+  depth: number;
+}
+
+/**
+ * A serializable description of the routes of a router, mapped with [[RouterConfiguration.mapManifest]].
+ */
+export interface RouteManifest {
+  /**
+   * The title of the router.
+   */
+  title?: string;
+
+  /**
+   * The routes of the router.
+   */
+  routes: RouteManifestRoute[];
+}
+
+/**
+ * A route of a [[RouteManifest]]. Besides the serializable options of a [[RouteConfig]], guards and navigation strategies
+ * are referenced by the names they are registered with in a [[RouteRegistry]], and param constraints by built-in type names.
+ */
+export interface RouteManifestRoute {
+  route: string | string[];
+  name?: string;
+  moduleId?: string;
+  view?: string;
+  redirect?: string;
+  viewPorts?: Record<string, { moduleId: string | null; [key: string]: any }>;
+  nav?: boolean | number;
+  href?: string;
+  generationUsesHref?: boolean;
+  title?: string;
+  settings?: Record<string, any>;
+  caseSensitive?: boolean;
+  priority?: number;
+  params?: Record<string, RouteParamTypeName>;
+  activationStrategy?: ActivationStrategyType;
+  queryParamsBehavior?: QueryParamsBehavior;
+  keepAlive?: boolean | { max: number };
+  transition?: { mode?: TransitionMode };
+  layoutView?: string;
+  layoutViewModel?: string;
+  layoutModel?: any;
+
+  /**
+   * The names of the guards controlling whether the route can be navigated to.
+   */
+  canActivate?: string[];
+
+  /**
+   * The names of the guards controlling whether the router can navigate away from the route.
+   */
+  canDeactivate?: string[];
+
+  /**
+   * The name of the navigation strategy of the route.
+   */
+  navigationStrategy?: string;
+
+  /**
+   * The child routes of the route.
+   */
+  children?: RouteManifestRoute[];
+}
+
+/**
+ * A problem found in a route config by the route config validator.
+ */
+export interface RouteConfigProblem {
+  /**
+   * The route config with the problem.
+   */
+  config: RouteConfig;
+
+  /**
+   * A description of the problem, with the name and the pattern of the route.
+   */
+  message: string;
+}
+
+/**
+ * The kinds of problems found in the routes of a router:
+ * 'duplicate-name' for routes sharing a name, of which only the first one is used to generate URLs,
+ * 'shadowed' for routes never matched because another route matches all of their URLs first,
+ * and 'ambiguous' for routes of the same priority and specificity matching some URLs in an unspecified order.
+ */
+export type RouteDiagnosticKind = 'duplicate-name' | 'shadowed' | 'ambiguous';
+
+/**
+ * A problem found in the routes of a router.
+ */
+export interface RouteDiagnostic {
+  /**
+   * The kind of problem.
+   */
+  kind: RouteDiagnosticKind;
+
+  /**
+   * A description of the problem.
+   */
+  message: string;
+
+  /**
+   * The route configs involved in the problem.
+   */
+  routes: RouteConfig[];
+}
+
+/**
+ * How navigations that only change the query params of a route are handled.
+ */
+export type QueryParamsBehavior = 'ignore' | 'invoke-lifecycle' | 'notify';
+
+/**
+ * How the scroll position is handled when navigating to a route:
+ * 'restore' restores the scroll position of back and forward navigations, and scrolls to the top of new navigations,
+ * 'top' always scrolls to the top, and 'none' leaves the scroll position as it is.
+ */
+export type RouteScrollBehavior = 'restore' | 'top' | 'none';
+
+/**
+ * How the view ports of a route are swapped: all at once, or one after the other.
+ */
+export type TransitionMode = 'simultaneous' | 'sequential';
+
+/**
+ * The swap of the component of a view port, passed to the hooks of a [[TransitionCoordinator]].
+ */
+export interface ViewPortTransition {
+  /**
+   * The name of the swapped view port.
+   */
+  viewPortName: string;
+
+  /**
+   * The component leaving the view port, if any.
+   */
+  outgoing?: ViewPortComponent;
+
+  /**
+   * The component entering the view port.
+   */
+  incoming: ViewPortComponent;
+
+  /**
+   * The navigation instruction the swap is part of.
+   */
+  navigationInstruction: NavigationInstruction;
+}
+
+/**
+ * The coordination of the swaps of the view ports of a route.
+ */
+export interface RouteTransitionConfig {
+  /**
+   * Whether the view ports are swapped all at once, or one after the other. Defaults to 'simultaneous'.
+   */
+  mode?: TransitionMode;
+
+  /**
+   * The transition coordinator of the route, or its class to resolve from the router's [[Container]].
+   * Defaults to the [[TransitionCoordinator]] of the router's container.
+   */
+  coordinator?: TransitionCoordinator | (new (...args: any[]) => TransitionCoordinator);
+}
+
+/**
+ * A scroll position of the document.
+ */
+export interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Decides which routes have their modules preloaded ahead of navigation:
+ * - `none`: modules are only loaded when their route is navigated to.
+ * - `all-after-idle`: the routes of the active routers are preloaded once the browser is idle after a navigation.
+ * - `on-nav-model-hover`: a route is preloaded when [[NavModel.preload]] is called, typically on hover of its link.
+ * - a predicate: the routes it accepts, typically based on their `settings`, are preloaded in both cases.
+ */
+export type PreloadingStrategy = 'none' | 'all-after-idle' | 'on-nav-model-hover' | ((config: RouteConfig) => boolean);
+
+/**
+ * Serializes the query params of a generated URL into a query string, without the leading `?`.
+ */
+export type QuerySerializer = (query: Record<string, any>) => string;
+
+/**
+ * Parses the query strings of URLs into query params, and serializes query params back into query strings.
+ */
+export interface QueryStringCodec {
+  /**
+   * Parses a query string, without the leading `?`, into query params. Empty query strings are parsed too.
+   */
+  parse(queryString: string): Record<string, any>;
+
+  /**
+   * Serializes query params into a query string, without the leading `?`.
+   */
+  serialize(query: Record<string, any>): string;
+}
+
+/**
+ * Options for generating the URL of a route.
+ */
+export interface GenerateOptions {
+  /**
+   * Whether to generate an absolute URL, starting with the root of the application.
+   */
+  absolute?: boolean;
+
+  /**
+   * The query params of the URL. The params that are not used by the route pattern are added to them.
+   */
+  query?: Record<string, any>;
+
+  /**
+   * The anchor at the end of the URL, without the leading `#`.
+   */
+  fragment?: string;
+
+  /**
+   * The auxiliary routes of the URL, keyed by the name of the view port they target.
+   */
+  auxiliary?: Record<string, AuxiliaryRouteTarget>;
+}
+
+/**
+ * A route of the router loaded in a view port through the auxiliary routes of a URL, e.g. `inbox(sidebar:chat/42)`.
+ */
+export interface AuxiliaryRouteTarget {
+  /**
+   * The name of the route.
+   */
+  route: string;
+
+  /**
+   * The params of the route.
+   */
+  params?: Record<string, any>;
+}
+
 /**
  * An optional interface describing the canActivate convention.
  */
@@ -165,7 +617,8 @@ export interface RoutableComponentCanActivate {
   canActivate(
     params: any,
     routeConfig: RouteConfig,
-    navigationInstruction: NavigationInstruction
+    navigationInstruction: NavigationInstruction,
+    resolvedData?: Record<string, any>
   ): boolean | Promise<boolean> | PromiseLike<boolean> | NavigationCommand | Promise<NavigationCommand> | PromiseLike<NavigationCommand>;
 }
 
@@ -178,7 +631,12 @@ export interface RoutableComponentActivate {
    * You can optionally return a promise to tell the router to wait to bind and attach the view until
    * after you finish your work.
    */
-  activate(params: any, routeConfig: RouteConfig, navigationInstruction: NavigationInstruction): Promise<void> | PromiseLike<void> | IObservable | void;
+  activate(
+    params: any,
+    routeConfig: RouteConfig,
+    navigationInstruction: NavigationInstruction,
+    resolvedData?: Record<string, any>
+  ): Promise<void> | PromiseLike<void> | IObservable | void;
 }
 
 /**
@@ -216,6 +674,39 @@ export interface RoutableComponentDetermineActivationStrategy {
   determineActivationStrategy(params: any, routeConfig: RouteConfig, navigationInstruction: NavigationInstruction): ActivationStrategyType;
 }
 
+/**
+ * An optional interface describing the queryParamsChanged convention.
+ */
+export interface RoutableComponentQueryParamsChanged {
+  /**
+   * Implement this hook to be notified of navigations that only change the query params of the route,
+   * when the route is configured with `queryParamsBehavior: 'notify'`.
+   */
+  queryParamsChanged(newParams: Record<string, any>, oldParams: Record<string, any>, navigationInstruction: NavigationInstruction): void;
+}
+
+/**
+ * An optional interface describing the attachedFromCache convention.
+ */
+export interface RoutableComponentAttachedFromCache {
+  /**
+   * Implement this hook to be notified when the view model of a route configured with `keepAlive`
+   * is displayed again from the cache, instead of being activated.
+   */
+  attachedFromCache(navigationInstruction: NavigationInstruction): void;
+}
+
+/**
+ * An optional interface describing the detachedToCache convention.
+ */
+export interface RoutableComponentDetachedToCache {
+  /**
+   * Implement this hook to be notified when the view model of a route configured with `keepAlive`
+   * is replaced and kept in the cache, instead of being deactivated.
+   */
+  detachedToCache(navigationInstruction: NavigationInstruction): void;
+}
+
 /**
  * An optional interface describing the router configuration convention.
  */
@@ -239,6 +730,11 @@ export interface PipelineStep {
    */
   run(instruction: NavigationInstruction, next: Next): Promise<any>;
 
+  /**
+   * The name of the step in navigation timings. Defaults to the name of the step's class.
+   */
+  name?: string;
+
   /**
    * @internal
    */
@@ -249,10 +745,109 @@ export interface PipelineStep {
  * A multi-step pipeline step that helps enable multiple hooks to the pipeline
  */
 export interface IPipelineSlot {
+  /**@internal */
+  slotName?: string;
   /**@internal */
   getSteps(): (StepRunnerFunction | IPipelineSlot | PipelineStep)[];
 }
 
+/**
+ * A reference to a pipeline step: a step added to the same pipeline slot, or the class of a built-in step
+ * such as [[LoadRouteStep]] or [[CommitChangesStep]]
+ */
+export type PipelineStepRef = Function | PipelineStep;
+
+/**
+ * Options controlling the position of a step added to a pipeline slot
+ */
+export interface PipelineStepOptions {
+  /**
+   * Run the step right before the referenced step
+   */
+  before?: PipelineStepRef;
+
+  /**
+   * Run the step right after the referenced step
+   */
+  after?: PipelineStepRef;
+
+  /**
+   * Steps with a higher priority run first. Steps with the same priority run in the order they were added. Defaults to 0.
+   */
+  priority?: number;
+}
+
+/**
+ * Options controlling the position of a custom pipeline slot. A slot is referenced by name, and a built-in step by its class.
+ * Slots without a position are added at the end of the pipeline.
+ */
+export interface PipelineSlotOptions {
+  /**
+   * Run the steps of the slot right before the referenced slot or built-in step
+   */
+  before?: string | Function;
+
+  /**
+   * Run the steps of the slot right after the referenced slot or built-in step
+   */
+  after?: string | Function;
+}
+
+/**
+ * A step of the navigation pipeline, in the order steps are run
+ */
+export interface PipelineStepDescription {
+  /**
+   * The name of the step
+   */
+  name: string;
+
+  /**
+   * The name of the pipeline slot the step was added to. Absent for built-in steps.
+   */
+  slot?: string;
+
+  /**
+   * The step, or the class of the step
+   */
+  step: Function | PipelineStep;
+}
+
+/**
+ * The time spent in a step of a pipeline run
+ */
+export interface PipelineStepTiming {
+  /**
+   * The name of the step
+   */
+  name: string;
+
+  /**
+   * The name of the pipeline slot the step was added to, if any
+   */
+  slot?: string;
+
+  /**
+   * The time, in milliseconds, until the step continued to the next step or ended the pipeline run
+   */
+  duration: number;
+}
+
+/**
+ * A summary of the time spent in the steps of a pipeline run
+ */
+export interface PipelineTimings {
+  /**
+   * The total duration of the pipeline run, in milliseconds
+   */
+  duration: number;
+
+  /**
+   * The timings of the steps that were run, in order
+   */
+  steps: PipelineStepTiming[];
+}
+
 /**
  * The result of a pipeline run.
  */
@@ -261,6 +856,7 @@ export interface PipelineResult {
   instruction: NavigationInstruction;
   output: any;
   completed: boolean;
+  timings?: PipelineTimings;
 }
 
 /**
@@ -320,9 +916,88 @@ export interface ViewPortInstruction {
   prevComponent?: ViewPortComponent;
 }
 
+/**
+ * A snapshot of a committed navigation, kept in the navigation history of the [[AppRouter]].
+ */
+export interface NavigationHistoryEntry {
+  /**
+   * The URL fragment of the navigation.
+   */
+  fragment: string;
+
+  /**
+   * The query string of the navigation, without the leading `?`.
+   */
+  queryString: string;
+
+  /**
+   * The paths of the auxiliary routes of the navigation, keyed by the name of the view port they target.
+   */
+  auxiliaryRoutes: Record<string, string>;
+
+  /**
+   * The name of the route navigated to, if it has one.
+   */
+  name?: string;
+
+  /**
+   * The params of the route navigated to.
+   */
+  params: Record<string, any>;
+
+  /**
+   * The document title after the navigation.
+   */
+  title: string;
+
+  /**
+   * The `NavigationTracker` of the history state the navigation was committed in.
+   */
+  navigationTracker: number;
+}
+
+/**
+ * An entry of a [[MemoryHistory]].
+ */
+export interface MemoryHistoryEntry {
+  /**
+   * The URL fragment of the entry, with its query string.
+   */
+  fragment: string;
+
+  /**
+   * The title set while the entry was the current one.
+   */
+  title: string;
+
+  /**
+   * The history state of the entry.
+   */
+  state: Record<string, any>;
+}
+
+/**
+ * The capabilities a history reports to the router, implemented by [[MemoryHistory]].
+ * Histories that don't implement them are treated as the browser history of aurelia-history-browser.
+ */
+export interface HistoryCapabilities {
+  /**
+   * Whether the history navigates with the pushState API rather than with the hash of the URL,
+   * in which case the router generates hrefs without a leading `#`.
+   */
+  usesPushState(): boolean;
+
+  /**
+   * Moves across the entries of the history in a single traversal, loading the URL of the entry moved to.
+   *
+   * @param delta The number of entries to move by: negative to go back, positive to go forward.
+   */
+  go?(delta: number): void;
+}
+
 export type NavigationResult = boolean | Promise<PipelineResult | boolean>;
 
-export type LifecycleArguments = [Record<string, string>, RouteConfig, NavigationInstruction];
+export type LifecycleArguments = [Record<string, any>, RouteConfig, NavigationInstruction, Record<string, any>];
 
 /**
  * A callback to indicate when pipeline processing should advance to the next step
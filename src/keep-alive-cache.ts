@@ -0,0 +1,118 @@
+import { buildQueryString } from 'aurelia-path';
+import { RouteConfig, ViewPortComponent } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+
+/**
+ * The number of components kept alive for a route configured with `keepAlive: true`
+ */
+const defaultMaxKeptAlive = 10;
+
+/**
+ * Least recently used store of the components of routes configured with `keepAlive`,
+ * kept after they were replaced so they can be displayed again with their state intact.
+ * Components are stored by route config, then by module id and route params.
+ */
+export class KeepAliveCache {
+
+  /**@internal */
+  _routes: Map<RouteConfig, Map<string, ViewPortComponent>> = new Map();
+
+  /**
+   * Gets a cached component, and marks it as the most recently used one of its route.
+   */
+  get(config: RouteConfig, key: string): ViewPortComponent | undefined {
+    let components = this._routes.get(config);
+    let component = components && components.get(key);
+    if (component) {
+      components.delete(key);
+      components.set(key, component);
+    }
+    return component;
+  }
+
+  /**
+   * Caches a component of a route.
+   *
+   * @returns The least recently used components of the route evicted to stay within its maximum.
+   */
+  add(config: RouteConfig, key: string, component: ViewPortComponent): ViewPortComponent[] {
+    let components = this._routes.get(config);
+    if (!components) {
+      this._routes.set(config, components = new Map());
+    }
+    components.delete(key);
+    components.set(key, component);
+
+    let keepAlive = config.keepAlive;
+    let max = typeof keepAlive === 'object' ? keepAlive.max : defaultMaxKeptAlive;
+    let evicted: ViewPortComponent[] = [];
+    for (let [cachedKey, cachedComponent] of components) {
+      if (components.size <= max) {
+        break;
+      }
+      components.delete(cachedKey);
+      evicted.push(cachedComponent);
+    }
+    return evicted;
+  }
+
+  /**
+   * Removes the components of a route from the cache, such as when the route is removed.
+   *
+   * @returns The components removed, to be released as evicted components are.
+   */
+  clear(config: RouteConfig): ViewPortComponent[] {
+    let components = this._routes.get(config);
+    this._routes.delete(config);
+    return components ? Array.from(components.values()) : [];
+  }
+
+  /**
+   * Removes a component from the cache, without evicting it.
+   */
+  delete(config: RouteConfig, key: string): void {
+    let components = this._routes.get(config);
+    if (components) {
+      components.delete(key);
+    }
+  }
+}
+
+/**
+ * Gets the cache key of a module of a route, from the route params of a navigation instruction
+ * @internal exported for unit testing
+ */
+export const getKeepAliveKey = (instruction: NavigationInstruction, moduleId: string): string => {
+  let params = Object.assign({}, instruction.params);
+  if (instruction.config.hasChildRouter) {
+    delete params[instruction.getWildCardName()];
+  }
+  let queryString = buildQueryString(params);
+  return queryString ? `${moduleId}?${queryString}` : moduleId;
+};
+
+/**
+ * Gets the cached component of a module of the route of a navigation instruction, when the route is kept alive
+ * @internal
+ */
+export const getCachedComponent = (instruction: NavigationInstruction, moduleId: string): ViewPortComponent | undefined => {
+  let router = instruction.router;
+  let config = instruction.config;
+  if (!router || !config || !config.keepAlive) {
+    return undefined;
+  }
+
+  let component = router.container.get(KeepAliveCache).get(config, getKeepAliveKey(instruction, moduleId));
+  if (component) {
+    component.fromCache = true;
+  }
+  return component;
+};
+
+/**
+ * Determines whether the components of the route of a navigation instruction are kept alive when replaced
+ * @internal
+ */
+export const isKeptAlive = (instruction: NavigationInstruction): boolean => {
+  return !!(instruction && instruction.config && instruction.config.keepAlive);
+};
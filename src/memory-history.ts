@@ -0,0 +1,167 @@
+import { History, NavigationOptions } from 'aurelia-history';
+import { HistoryCapabilities, MemoryHistoryEntry } from './interfaces';
+
+/**
+ * A history keeping its entries in memory, in a stack with a cursor on the current entry,
+ * to run the router where there is no browser location: in Node, in workers and in tests.
+ *
+ * It's activated by the [[AppRouter]] with the router options, and honors their `root`, `pushState` and `silent` options.
+ */
+export class MemoryHistory extends History implements HistoryCapabilities {
+
+  /**
+   * The entries of the history, from the oldest to the newest.
+   */
+  entries: MemoryHistoryEntry[];
+
+  /**
+   * The position of the current entry in [[MemoryHistory.entries]].
+   */
+  index: number = 0;
+
+  /**
+   * The origin of the absolute URLs of the history, such as `https://example.com`.
+   */
+  origin: string;
+
+  /**
+   * The last location navigated to successfully, set by the [[AppRouter]].
+   */
+  previousLocation: string = null;
+
+  /**
+   * The activation options, null while the history isn't active
+   * @internal
+   */
+  _options: Record<string, any> = null;
+
+  /**
+   * @param fragment The URL fragment of the initial entry.
+   * @param origin The origin of the absolute URLs of the history.
+   */
+  constructor(fragment: string = '', origin: string = '') {
+    super();
+    this.origin = origin;
+    this.entries = [createEntry(normalizeFragment(fragment))];
+  }
+
+  /**
+   * The URL fragment of the current entry.
+   */
+  get fragment(): string {
+    return this.entries[this.index].fragment;
+  }
+
+  /**
+   * The title of the current entry.
+   */
+  get title(): string {
+    return this.entries[this.index].title;
+  }
+
+  /**
+   * Activates the history, loading the URL of the current entry unless the `silent` option is set.
+   *
+   * @param options The options to activate the history with, and the `routeHandler` loading URLs.
+   */
+  activate(options: Record<string, any> = {}): boolean {
+    if (this._options) {
+      throw new Error('MemoryHistory has already been activated.');
+    }
+
+    let root = `/${options.root || ''}/`.replace(/\/+/g, '/');
+    this._options = Object.assign({}, options, { root });
+    return options.silent ? false : loadUrl(this);
+  }
+
+  deactivate(): void {
+    this._options = null;
+  }
+
+  usesPushState(): boolean {
+    return !!this._options && !!this._options.pushState;
+  }
+
+  getAbsoluteRoot(): string {
+    return this.origin + (this._options ? this._options.root : '/');
+  }
+
+  /**
+   * Navigates to a URL fragment, adding an entry after the current one unless `replace` is set.
+   * The entries after the current one are discarded, as in a browser.
+   *
+   * @param fragment The URL fragment, as generated by the router.
+   * @param options Whether to load the URL (`trigger`, by default) and to replace the current entry (`replace`).
+   * @returns The result of loading the URL when triggered, false when the history isn't active or already at the URL.
+   */
+  navigate(fragment: string, { trigger = true, replace = false }: NavigationOptions = {}): boolean {
+    if (!this._options) {
+      return false;
+    }
+
+    fragment = normalizeFragment(fragment, this.usesPushState() ? this._options.root : '/');
+    if (fragment === this.fragment && !replace) {
+      return false;
+    }
+
+    if (replace) {
+      this.entries[this.index] = createEntry(fragment);
+    } else {
+      this.entries.splice(++this.index, this.entries.length, createEntry(fragment));
+    }
+
+    return trigger ? loadUrl(this) : true;
+  }
+
+  navigateBack(): void {
+    this.go(-1);
+  }
+
+  /**
+   * Moves the cursor across the entries, loading the URL of the entry moved to.
+   * Moving outside of the entries does nothing.
+   *
+   * @param delta The number of entries to move by: negative to go back, positive to go forward.
+   */
+  go(delta: number): void {
+    let index = this.index + delta;
+    if (delta && index >= 0 && index < this.entries.length) {
+      this.index = index;
+      loadUrl(this);
+    }
+  }
+
+  setTitle(title: string): void {
+    this.entries[this.index].title = title;
+  }
+
+  setState(key: string, value: any): void {
+    let entry = this.entries[this.index];
+    entry.state = Object.assign({}, entry.state, { [key]: value });
+  }
+
+  getState(key: string): any {
+    return this.entries[this.index].state[key];
+  }
+}
+
+const createEntry = (fragment: string): MemoryHistoryEntry => ({ fragment, title: '', state: {} });
+
+/**
+ * Removes the hash, the root and the leading slashes of a URL fragment.
+ */
+const normalizeFragment = (fragment: string, root: string = '/'): string => {
+  fragment = fragment.replace(/^#/, '');
+  if (root !== '/' && fragment.indexOf(root) === 0) {
+    fragment = fragment.substr(root.length);
+  }
+  return fragment.replace(/^\/+/, '');
+};
+
+/**
+ * Loads the URL of the current entry with the route handler of the activation options.
+ */
+const loadUrl = (history: MemoryHistory): any => {
+  let routeHandler = history._options && history._options.routeHandler;
+  return routeHandler ? routeHandler(history.fragment) : false;
+};
@@ -1,5 +1,6 @@
 import { Router } from './router';
 import { RouteConfig } from './interfaces';
+import { preloadRoute, PreloadTrigger } from './route-preloader';
 
 /**
 * Class for storing and interacting with a route's navigation settings.
@@ -62,4 +63,12 @@ export class NavModel {
       this.router.updateTitle();
     }
   }
+
+  /**
+  * Preloads the modules of the route, when the preloading strategy of the router allows it.
+  *  Typically called when the link of the route is hovered.
+  */
+  preload(): Promise<void> {
+    return preloadRoute(this.router, this.config, PreloadTrigger.Hover);
+  }
 }
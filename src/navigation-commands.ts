@@ -1,5 +1,6 @@
 import { NavigationOptions } from 'aurelia-history';
 import { Router } from './router';
+import { GenerateOptions } from './interfaces';
 
 /**@internal */
 declare module 'aurelia-history' {
@@ -82,7 +83,7 @@ export class RedirectToRoute implements NavigationCommand {
   route: string;
   params: any;
   /**@internal */
-  options: NavigationOptions;
+  options: NavigationOptions & GenerateOptions;
 
   /**@internal */
   shouldContinueProcessing: boolean;
@@ -93,9 +94,9 @@ export class RedirectToRoute implements NavigationCommand {
   /**
    * @param route The name of the route.
    * @param params The parameters to be sent to the activation method.
-   * @param options The options to use for navigation.
+   * @param options The options to use for navigation, and the query params and anchor of the redirect location.
    */
-  constructor(route: string, params: any = {}, options: NavigationOptions = {}) {
+  constructor(route: string, params: any = {}, options: NavigationOptions & GenerateOptions = {}) {
     this.route = route;
     this.params = params;
     this.options = Object.assign({ trigger: true, replace: true }, options);
@@ -0,0 +1,113 @@
+import { NavigationHistoryEntry } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+import { Router } from './router';
+import { traverseHistory } from './history-capabilities';
+
+/**
+ * The stack of navigations committed by the [[AppRouter]], following the browser history.
+ * Navigating back or forward moves through the stack, and a new navigation drops the entries ahead of it.
+ */
+export class NavigationHistory {
+
+  /**
+   * The committed navigations, from the oldest to the most recent one.
+   */
+  entries: NavigationHistoryEntry[] = [];
+
+  /**
+   * The position of the current navigation in the entries.
+   */
+  index: number = -1;
+
+  /**@internal */
+  router: Router;
+
+  constructor(router: Router) {
+    this.router = router;
+  }
+
+  /**
+   * Whether there is a navigation to go back to.
+   */
+  get canGoBack(): boolean {
+    return this.index > 0;
+  }
+
+  /**
+   * Gets a navigation before the current one.
+   *
+   * @param n The number of navigations to go back, 0 for the current navigation.
+   */
+  peek(n: number = 0): NavigationHistoryEntry | undefined {
+    let index = this.index - n;
+    return index >= 0 && index <= this.index ? this.entries[index] : undefined;
+  }
+
+  /**
+   * Navigates back to the most recent navigation to a route.
+   *
+   * @param routeName The name of the route.
+   * @returns Whether the router went back to a navigation to the route: false when there is none, or when it is
+   * several navigations back and the history can't go back several entries at once.
+   */
+  backTo(routeName: string): boolean {
+    for (let index = this.index - 1; index >= 0; --index) {
+      if (this.entries[index].name === routeName) {
+        return goBack(this.router, this.index - index);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Records a committed navigation, at the position of its navigation tracker.
+   * @internal
+   */
+  _record(instruction: NavigationInstruction, navigationTracker: number): void {
+    let config = instruction.config;
+    let entry: NavigationHistoryEntry = {
+      fragment: instruction.fragment,
+      queryString: instruction.queryString,
+      auxiliaryRoutes: Object.assign({}, instruction.auxiliaryRoutes),
+      name: config ? config.name : undefined,
+      params: Object.assign({}, instruction.params),
+      title: config && config.navModel ? instruction._buildTitle(this.router.titleSeparator) : '',
+      navigationTracker
+    };
+
+    let entries = this.entries;
+    let index = findEntryIndex(entries, navigationTracker);
+    if (index === -1) {
+      entries.splice(this.index + 1, entries.length, entry);
+      this.index = entries.length - 1;
+    } else {
+      entries[index] = entry;
+      this.index = index;
+    }
+  }
+}
+
+/**
+ * Goes back to a navigation in a single step: going back one entry at a time would run the pipeline
+ * for each navigation in between, and navigating to its location would push a new entry instead of going back.
+ */
+const goBack = (router: Router, count: number): boolean => {
+  if (count === 1) {
+    router.navigateBack();
+    return true;
+  }
+  if (traverseHistory(router.history, -count)) {
+    router.isExplicitNavigationBack = true;
+    return true;
+  }
+  return false;
+};
+
+const findEntryIndex = (entries: NavigationHistoryEntry[], navigationTracker: number): number => {
+  for (let i = entries.length - 1; i >= 0; --i) {
+    if (entries[i].navigationTracker === navigationTracker) {
+      return i;
+    }
+  }
+  return -1;
+};
@@ -1,6 +1,16 @@
-import { ViewPortInstruction, RouteConfig, ViewPort, LifecycleArguments, ViewPortComponent } from './interfaces';
+import {
+  ViewPortInstruction,
+  RouteConfig,
+  ViewPort,
+  LifecycleArguments,
+  ViewPortComponent,
+  ViewPortTransition
+} from './interfaces';
 import { Router } from './router';
 import { ActivationStrategyType, InternalActivationStrategy } from './activation-strategy';
+import { hasDifferentQueryParamValues } from './navigation-plan';
+import { TransitionCoordinator } from './transition-coordinator';
+import { KeepAliveCache, getKeepAliveKey, isKeptAlive } from './keep-alive-cache';
 
 /**
  * Initialization options for a navigation instruction
@@ -8,6 +18,7 @@ import { ActivationStrategyType, InternalActivationStrategy } from './activation
 export interface NavigationInstructionInit {
   fragment: string;
   queryString?: string;
+  auxiliaryRoutes?: Record<string, string>;
   params?: Record<string, any>;
   queryParams?: Record<string, any>;
   config: RouteConfig;
@@ -39,6 +50,11 @@ export class NavigationInstruction {
    */
   queryString: string;
 
+  /**
+   * The paths of the auxiliary routes of the URL, keyed by the name of the view port they target.
+   */
+  auxiliaryRoutes: Record<string, string>;
+
   /**
    * Parameters extracted from the route pattern.
    */
@@ -71,6 +87,11 @@ export class NavigationInstruction {
    */
   viewPortInstructions: Record<string, /*ViewPortInstruction*/any>;
 
+  /**
+   * The instructions of the auxiliary routes of the URL, keyed by the name of the view port they are loaded in.
+   */
+  auxiliaryInstructions: Record<string, NavigationInstruction>;
+
   /**
    * The router instance.
    */
@@ -83,16 +104,40 @@ export class NavigationInstruction {
 
   options: Record<string, any> = {};
 
+  /**
+   * Data resolved by the route config's resolvers, keyed by the resolvers' names.
+   */
+  resolvedData: Record<string, any>;
+
+  /**
+   * Signal aborted when a newer navigation supersedes this one. Child instructions share the signal
+   * of their parent instruction. Long running hooks and pipeline steps can observe it to stop early.
+   */
+  signal: AbortSignal;
+
   /**@internal */
   lifecycleArgs: LifecycleArguments;
   /**@internal */
   resolve?: (val?: any) => void;
+  /**@internal */
+  _abortController: AbortController;
 
   constructor(init: NavigationInstructionInit) {
     Object.assign(this, init);
 
     this.params = this.params || {};
+    this.auxiliaryRoutes = this.auxiliaryRoutes || {};
     this.viewPortInstructions = {};
+    this.auxiliaryInstructions = {};
+    this.resolvedData = {};
+
+    let parentInstruction = this.parentInstruction;
+    if (parentInstruction && parentInstruction.signal) {
+      this.signal = parentInstruction.signal;
+    } else if (typeof AbortController === 'function') {
+      this._abortController = new AbortController();
+      this.signal = this._abortController.signal;
+    }
 
     let ancestorParams = [];
     let current: NavigationInstruction = this;
@@ -108,7 +153,7 @@ export class NavigationInstruction {
     } while (current);
 
     let allParams = Object.assign({}, this.queryParams, ...ancestorParams);
-    this.lifecycleArgs = [allParams, this.config, this];
+    this.lifecycleArgs = [allParams, this.config, this, this.resolvedData];
   }
 
   /**
@@ -150,7 +195,7 @@ export class NavigationInstruction {
 
     let viewPortInstruction: ViewPortInstruction;
     let viewPortName = typeof nameOrInitOptions === 'string' ? nameOrInitOptions : nameOrInitOptions.name;
-    const lifecycleArgs = this.lifecycleArgs;
+    const lifecycleArgs = this.getRouteInstruction(viewPortName).lifecycleArgs;
     const config: RouteConfig = Object.assign({}, lifecycleArgs[1], { currentViewPort: viewPortName });
 
     if (typeof nameOrInitOptions === 'string') {
@@ -160,7 +205,7 @@ export class NavigationInstruction {
         moduleId: moduleId,
         component: component,
         childRouter: component.childRouter,
-        lifecycleArgs: [lifecycleArgs[0], config, lifecycleArgs[2]] as LifecycleArguments
+        lifecycleArgs: [lifecycleArgs[0], config, lifecycleArgs[2], lifecycleArgs[3]] as LifecycleArguments
       };
     } else {
       viewPortInstruction = {
@@ -169,13 +214,34 @@ export class NavigationInstruction {
         component: nameOrInitOptions.component,
         moduleId: nameOrInitOptions.moduleId,
         childRouter: nameOrInitOptions.component.childRouter,
-        lifecycleArgs: [lifecycleArgs[0], config, lifecycleArgs[2]] as LifecycleArguments
+        lifecycleArgs: [lifecycleArgs[0], config, lifecycleArgs[2], lifecycleArgs[3]] as LifecycleArguments
       };
     }
 
     return this.viewPortInstructions[viewPortName] = viewPortInstruction;
   }
 
+  /**
+   * Gets the instruction of the route loaded in a view port: the instruction of the auxiliary route targeting
+   * the view port, if any, otherwise this instruction.
+   *
+   * @param viewPortName The name of the view port.
+   */
+  getRouteInstruction(viewPortName: string): NavigationInstruction {
+    return this.auxiliaryInstructions[viewPortName] || this;
+  }
+
+  /**
+   * Aborts this navigation, and all of its child navigations, because a newer one has been requested.
+   * @internal
+   */
+  _supersede(): void {
+    let abortController = this._abortController;
+    if (abortController && !abortController.signal.aborted) {
+      abortController.abort();
+    }
+  }
+
   /**
    * Gets the name of the route pattern's wildcard parameter, if applicable.
    */
@@ -252,6 +318,9 @@ export class NavigationInstruction {
 
     let loads: Promise<void>[] = [];
     let delaySwaps: ISwapPlan[] = [];
+    let notifiesQueryParams = this.config.queryParamsBehavior === 'notify'
+      && !!previousInstruction
+      && hasDifferentQueryParamValues(previousInstruction, this);
     let viewPortInstructions: Record<string, ViewPortInstruction> = this.viewPortInstructions;
 
     for (let viewPortName in viewPortInstructions) {
@@ -264,11 +333,23 @@ export class NavigationInstruction {
 
       let childNavInstruction = viewPortInstruction.childNavigationInstruction;
       if (viewPortInstruction.strategy === InternalActivationStrategy.Replace) {
+        let viewPortPlan = this.plan && this.plan[viewPortName];
+        // the component displayed again leaves the cache before the replaced one enters it
+        if (viewPortInstruction.component.fromCache) {
+          attachFromCache(this, viewPortInstruction);
+        }
+        if (viewPortPlan && viewPortPlan.prevComponent !== viewPortInstruction.component) {
+          if (isKeptAlive(previousInstruction) && viewPortPlan.prevComponent) {
+            detachToCache(this, viewPortPlan.prevModuleId, viewPortPlan.prevComponent);
+          } else {
+            removeChildPipelineSteps(viewPortPlan.prevComponent);
+          }
+        }
         if (childNavInstruction && childNavInstruction.parentCatchHandler) {
           loads.push(childNavInstruction._commitChanges(waitToSwap));
         } else {
           if (waitToSwap) {
-            delaySwaps.push({ viewPort, viewPortInstruction });
+            delaySwaps.push({ viewPortName, viewPort, viewPortInstruction });
           }
           loads.push(
             viewPort
@@ -280,6 +361,9 @@ export class NavigationInstruction {
           );
         }
       } else {
+        if (notifiesQueryParams && viewPortInstruction.strategy === InternalActivationStrategy.NoChange) {
+          notifyQueryParamsChanged(this, viewPortInstruction);
+        }
         if (childNavInstruction) {
           loads.push(childNavInstruction._commitChanges(waitToSwap));
         }
@@ -288,10 +372,7 @@ export class NavigationInstruction {
 
     return Promise
       .all(loads)
-      .then(() => {
-        delaySwaps.forEach(x => x.viewPort.swap(x.viewPortInstruction));
-        return null;
-      })
+      .then(() => swapViewPorts(this, delaySwaps))
       .then(() => prune(this));
   }
 
@@ -340,12 +421,156 @@ export class NavigationInstruction {
   }
 }
 
+/**
+ * Determines whether a navigation instruction has been superseded by a newer navigation
+ * @internal exported for use in pipeline steps
+ */
+export const isSuperseded = (instruction: NavigationInstruction): boolean => {
+  return !!(instruction && instruction.signal && instruction.signal.aborted);
+};
+
+/**
+ * Removes the pipeline steps contributed by the child router of a replaced component, and by the routers below it
+ */
+const removeChildPipelineSteps = (component: ViewPortComponent): void => {
+  let childRouter = component && component.childRouter;
+  if (childRouter) {
+    removeRouterPipelineSteps(childRouter);
+  }
+};
+
+/**
+ * Removes the pipeline steps contributed by a child router, and by the routers below it
+ * @internal exported for use in other modules
+ */
+export const removeRouterPipelineSteps = (router: Router): void => {
+  router._removePipelineSteps();
+
+  let currentInstruction = router.currentInstruction;
+  if (currentInstruction) {
+    let viewPortInstructions: Record<string, ViewPortInstruction> = currentInstruction.viewPortInstructions;
+    for (let viewPortName in viewPortInstructions) {
+      removeChildPipelineSteps(viewPortInstructions[viewPortName].component);
+    }
+  }
+};
+
+/**
+ * Calls the queryParamsChanged hook of the view model kept in a view port by a query params only navigation
+ */
+const notifyQueryParamsChanged = (instruction: NavigationInstruction, viewPortInstruction: ViewPortInstruction): void => {
+  let viewModel = viewPortInstruction.component && viewPortInstruction.component.viewModel;
+  if (viewModel && typeof viewModel.queryParamsChanged === 'function') {
+    viewModel.queryParamsChanged(instruction.queryParams, instruction.previousInstruction.queryParams, instruction);
+  }
+};
+
+/**
+ * Swaps the view ports of an instruction through the transition coordinator of its route,
+ * all at once or one after the other
+ */
+const swapViewPorts = (instruction: NavigationInstruction, swapPlans: ISwapPlan[]): Promise<void> => {
+  if (!swapPlans.length) {
+    return Promise.resolve();
+  }
+
+  let transition = instruction.config.transition || {};
+  let coordinator = transition.coordinator || TransitionCoordinator;
+  let transitionCoordinator: TransitionCoordinator = typeof coordinator === 'function'
+    ? instruction.router.container.get(coordinator)
+    : coordinator;
+  let plan = instruction.plan;
+
+  let swap = ({ viewPortName, viewPort, viewPortInstruction }: ISwapPlan): Promise<void> => {
+    let viewPortPlan = plan && plan[viewPortName];
+    let viewPortTransition: ViewPortTransition = {
+      viewPortName,
+      outgoing: viewPortPlan ? viewPortPlan.prevComponent : undefined,
+      incoming: viewPortInstruction.component,
+      navigationInstruction: instruction
+    };
+    return Promise.resolve(transitionCoordinator.beforeSwap(viewPortTransition))
+      .then(() => viewPort.swap(viewPortInstruction))
+      .then(() => transitionCoordinator.afterSwap(viewPortTransition));
+  };
+
+  if (transition.mode === 'sequential') {
+    return swapPlans.reduce((previousSwap, swapPlan) => previousSwap.then(() => swap(swapPlan)), Promise.resolve());
+  }
+
+  return Promise.all(swapPlans.map(swap)).then(() => undefined);
+};
+
+/**
+ * Keeps a replaced component of a route in the cache, and deactivates the components evicted to make room for it
+ */
+const detachToCache = (instruction: NavigationInstruction, moduleId: string, component: ViewPortComponent): void => {
+  let previousInstruction = instruction.previousInstruction;
+  let cache: KeepAliveCache = previousInstruction.router.container.get(KeepAliveCache);
+  let evicted = cache.add(previousInstruction.config, getKeepAliveKey(previousInstruction, moduleId), component);
+
+  let viewModel = component.viewModel;
+  if (viewModel && typeof viewModel.detachedToCache === 'function') {
+    viewModel.detachedToCache(instruction);
+  }
+
+  releaseCachedComponents(evicted, instruction);
+};
+
+/**
+ * Releases the components leaving the cache of a route without being displayed again:
+ * removes the pipeline steps of their child routers, and deactivates them
+ * @internal exported for use in other modules
+ */
+export const releaseCachedComponents = (components: ViewPortComponent[], instruction: NavigationInstruction): void => {
+  for (let component of components) {
+    removeChildPipelineSteps(component);
+    deactivateComponent(component, instruction);
+  }
+};
+
+/**
+ * Takes a component displayed again out of the cache
+ */
+const attachFromCache = (instruction: NavigationInstruction, viewPortInstruction: ViewPortInstruction): void => {
+  let component = viewPortInstruction.component;
+  let cache: KeepAliveCache = instruction.router.container.get(KeepAliveCache);
+  cache.delete(instruction.config, getKeepAliveKey(instruction, viewPortInstruction.moduleId));
+  // the component is displayed again, later navigations replacing or reusing it don't take it from the cache
+  component.fromCache = false;
+
+  let viewModel = component.viewModel;
+  if (viewModel && typeof viewModel.attachedFromCache === 'function') {
+    viewModel.attachedFromCache(instruction);
+  }
+};
+
+/**
+ * Deactivates the view model of a component evicted from the cache, after the view models of its child router
+ */
+const deactivateComponent = (component: ViewPortComponent, instruction: NavigationInstruction): void => {
+  let childRouter = component.childRouter;
+  let currentInstruction = childRouter && childRouter.currentInstruction;
+  if (currentInstruction) {
+    let viewPortInstructions: Record<string, ViewPortInstruction> = currentInstruction.viewPortInstructions;
+    for (let viewPortName in viewPortInstructions) {
+      deactivateComponent(viewPortInstructions[viewPortName].component, instruction);
+    }
+  }
+
+  let viewModel = component.viewModel;
+  if (viewModel && typeof viewModel.deactivate === 'function') {
+    viewModel.deactivate(instruction);
+  }
+};
+
 const prune = (instruction: NavigationInstruction): void => {
   instruction.previousInstruction = null;
   instruction.plan = null;
 };
 
 interface ISwapPlan {
+  viewPortName: string;
   viewPort: ViewPort;
   viewPortInstruction: ViewPortInstruction;
 }
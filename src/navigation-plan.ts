@@ -2,6 +2,8 @@ import { ViewPortPlan, ViewPortInstruction, RouteConfig, ViewPort } from './inte
 import { Redirect } from './navigation-commands';
 import { NavigationInstruction } from './navigation-instruction';
 import { InternalActivationStrategy, ActivationStrategyType } from './activation-strategy';
+import { _deepEqual } from './util';
+import { getAuxiliaryViewPortConfig } from './auxiliary-routes';
 
 type ViewPortPlansRecord = Record<string, ViewPortPlan>;
 
@@ -27,7 +29,7 @@ export function _buildNavigationPlan(
 
   // first navigation, only need to prepare a few information for each viewport plan
   const viewPortPlans: ViewPortPlansRecord = {};
-  let viewPortConfigs = config.viewPorts;
+  let viewPortConfigs = getViewPortConfigs(instruction);
   for (let viewPortName in viewPortConfigs) {
     let viewPortConfig = viewPortConfigs[viewPortName];
     if (viewPortConfig.moduleId === null && viewPortName in defaultViewPortConfigs) {
@@ -99,16 +101,21 @@ export const buildTransitionPlans = (
 ): Promise<ViewPortPlansRecord> => {
 
   let viewPortPlans: ViewPortPlansRecord = {};
-  let newInstructionConfig = currentInstruction.config;
   let hasNewParams = hasDifferentParameterValues(previousInstruction, currentInstruction);
   let pending: Promise<void>[] = [];
   let previousViewPortInstructions = previousInstruction.viewPortInstructions as Record<string, ViewPortInstruction>;
+  const newInstructionViewPortConfigs = getViewPortConfigs(currentInstruction);
 
   for (let viewPortName in previousViewPortInstructions) {
 
     const prevViewPortInstruction = previousViewPortInstructions[viewPortName];
     const prevViewPortComponent = prevViewPortInstruction.component;
-    const newInstructionViewPortConfigs = newInstructionConfig.viewPorts as Record<string, RouteConfig>;
+    // view ports targeted by auxiliary routes compare the params of their own routes
+    const routeInstruction = currentInstruction.getRouteInstruction(viewPortName);
+    const prevRouteInstruction = previousInstruction.getRouteInstruction(viewPortName);
+    const viewPortHasNewParams = routeInstruction === currentInstruction && prevRouteInstruction === previousInstruction
+      ? hasNewParams
+      : hasDifferentParameterValues(prevRouteInstruction, routeInstruction);
 
     // if this is invoked on a viewport without any changes, based on new url,
     // newViewPortConfig will be the existing viewport instruction
@@ -121,10 +128,10 @@ export const buildTransitionPlans = (
     }
 
     const viewPortActivationStrategy = determineActivationStrategy(
-      currentInstruction,
+      routeInstruction,
       prevViewPortInstruction,
       nextViewPortConfig,
-      hasNewParams,
+      viewPortHasNewParams,
       forceLifecycleMinimum
     );
     const viewPortPlan = viewPortPlans[viewPortName] = {
@@ -140,7 +147,7 @@ export const buildTransitionPlans = (
     // this is possible because existing child viewports and routers already have necessary information
     // to process the wildcard path from parent instruction
     if (viewPortActivationStrategy !== InternalActivationStrategy.Replace && prevViewPortInstruction.childRouter) {
-      const path = currentInstruction.getWildcardPath();
+      const path = routeInstruction.getWildcardPath();
       const task: Promise<void> = prevViewPortInstruction
         .childRouter
         ._createNavigationInstruction(path, currentInstruction)
@@ -168,9 +175,37 @@ export const buildTransitionPlans = (
     }
   }
 
+  // view ports the previous navigation did not load, e.g. targeted by a new auxiliary route
+  for (let viewPortName in newInstructionViewPortConfigs) {
+    if (viewPortName in previousViewPortInstructions) {
+      continue;
+    }
+    let viewPortConfig: RouteConfig | ViewPortInstruction = newInstructionViewPortConfigs[viewPortName];
+    if (viewPortConfig.moduleId === null && viewPortName in defaultViewPortConfigs) {
+      viewPortConfig = defaultViewPortConfigs[viewPortName];
+    }
+    viewPortPlans[viewPortName] = {
+      name: viewPortName,
+      strategy: InternalActivationStrategy.Replace,
+      config: viewPortConfig as RouteConfig
+    };
+  }
+
   return Promise.all(pending).then(() => viewPortPlans);
 };
 
+/**
+ * Gets the configs of the view ports of an instruction, where auxiliary routes override the view ports they target.
+ */
+const getViewPortConfigs = (instruction: NavigationInstruction): Record<string, RouteConfig> => {
+  let viewPortConfigs = Object.assign({}, instruction.config.viewPorts) as Record<string, RouteConfig>;
+  let auxiliaryInstructions = instruction.auxiliaryInstructions;
+  for (let viewPortName in auxiliaryInstructions) {
+    viewPortConfigs[viewPortName] = getAuxiliaryViewPortConfig(auxiliaryInstructions[viewPortName].config);
+  }
+  return viewPortConfigs;
+};
+
 /**
  * @param newViewPortConfig if this is invoked on a viewport without any changes, based on new url, newViewPortConfig will be the existing viewport instruction
  * @internal exported for unit testing
@@ -228,20 +263,26 @@ export const hasDifferentParameterValues = (prev: NavigationInstruction, next: N
     }
   }
 
-  if (!next.options.compareQueryParams) {
+  let queryParamsBehavior = next.config.queryParamsBehavior;
+  if (queryParamsBehavior ? queryParamsBehavior !== 'invoke-lifecycle' : !next.options.compareQueryParams) {
     return false;
   }
 
+  return hasDifferentQueryParamValues(prev, next);
+};
+
+/**@internal exported for unit testing */
+export const hasDifferentQueryParamValues = (prev: NavigationInstruction, next: NavigationInstruction): boolean => {
   let prevQueryParams = prev.queryParams;
   let nextQueryParams = next.queryParams;
   for (let key in nextQueryParams) {
-    if (prevQueryParams[key] !== nextQueryParams[key]) {
+    if (!_deepEqual(prevQueryParams[key], nextQueryParams[key])) {
       return true;
     }
   }
 
   for (let key in prevQueryParams) {
-    if (prevQueryParams[key] !== nextQueryParams[key]) {
+    if (!_deepEqual(prevQueryParams[key], nextQueryParams[key])) {
       return true;
     }
   }
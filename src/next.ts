@@ -1,5 +1,5 @@
 import { PipelineStatus } from './pipeline-status';
-import { NavigationInstruction } from './navigation-instruction';
+import { NavigationInstruction, isSuperseded } from './navigation-instruction';
 import { Next, StepRunnerFunction, NextCompletionHandler } from './interfaces';
 
 /**@internal exported for unit testing */
@@ -8,6 +8,11 @@ export const createNextFn = (instruction: NavigationInstruction, steps: StepRunn
   const next: Next = function() {
     index++;
 
+    // a newer navigation has been requested, stop before running any further step
+    if (isSuperseded(instruction)) {
+      return next.cancel();
+    }
+
     if (index < steps.length) {
       let currentStep = steps[index];
 
@@ -1,12 +1,45 @@
 import { Container } from 'aurelia-dependency-injection';
-import { Pipeline } from './pipeline';
+import { Pipeline, IPipelineSlotStep, getStepName } from './pipeline';
 import { BuildNavigationPlanStep } from './step-build-navigation-plan';
 import { LoadRouteStep } from './step-load-route';
+import { ResolveDataStep } from './step-resolve-data';
 import { CommitChangesStep } from './step-commit-changes';
 import { CanDeactivatePreviousStep, CanActivateNextStep, DeactivatePreviousStep, ActivateNextStep } from './step-activation';
-import { PipelineStep, StepRunnerFunction, IPipelineSlot } from './interfaces';
+import {
+  PipelineStep,
+  StepRunnerFunction,
+  IPipelineSlot,
+  PipelineStepOptions,
+  PipelineStepRef,
+  PipelineStepDescription,
+  PipelineSlotOptions
+} from './interfaces';
 import { PipelineSlotName } from './pipeline-slot-name';
 
+/**
+ * A step added to a pipeline slot, with the options controlling its position
+ */
+interface IPipelineSlotEntry extends PipelineStepOptions {
+  step: Function | PipelineStep;
+}
+
+/**
+ * A step added to a slot, along with the order it was added in across all slots
+ */
+interface IResolvedSlotEntry {
+  entry: IPipelineSlotEntry;
+  slot: PipelineSlot;
+  index: number;
+}
+
+/**
+ * A step of the pipeline in its resolved position, and the slot it was added to
+ */
+interface IResolvedStep {
+  step: Function | PipelineStep;
+  slot?: PipelineSlot;
+}
+
 /**
  * A multi-slots Pipeline Placeholder Step for hooking into a pipeline execution
  */
@@ -18,8 +51,16 @@ class PipelineSlot implements IPipelineSlot {
   slotName: string;
   /**@internal */
   slotAlias?: string;
+  /**
+   * Whether the slot was added after the creation of the pipeline provider
+   * @internal
+   */
+  isCustom?: boolean;
 
-  steps: (Function | PipelineStep)[] = [];
+  /**
+   * The steps added to this slot, in the order they were added
+   */
+  entries: IPipelineSlotEntry[] = [];
 
   constructor(container: Container, name: string, alias?: string) {
     this.container = container;
@@ -28,7 +69,17 @@ class PipelineSlot implements IPipelineSlot {
   }
 
   getSteps(): (StepRunnerFunction | IPipelineSlot | PipelineStep)[] {
-    return this.steps.map(x => this.container.get(x));
+    return this.entries.map(x => this.container.get(x.step));
+  }
+
+  indexOf(step: PipelineStepRef): number {
+    let entries = this.entries;
+    for (let i = 0, ii = entries.length; i < ii; ++i) {
+      if (entries[i].step === step) {
+        return i;
+      }
+    }
+    return -1;
   }
 }
 
@@ -51,6 +102,7 @@ export class PipelineProvider {
       CanDeactivatePreviousStep, // optional
       LoadRouteStep,
       createPipelineSlot(container, PipelineSlotName.Authorize),
+      ResolveDataStep, // optional
       CanActivateNextStep, // optional
       createPipelineSlot(container, PipelineSlotName.PreActivate, 'modelbind'),
       // NOTE: app state changes start below - point of no return
@@ -67,30 +119,93 @@ export class PipelineProvider {
    */
   createPipeline(useCanDeactivateStep: boolean = true): Pipeline {
     let pipeline = new Pipeline();
-    this.steps.forEach(step => {
-      if (useCanDeactivateStep || step !== CanDeactivatePreviousStep) {
-        pipeline.addStep(this.container.get(step));
+    let container = this.container;
+    let builtInSteps = this.steps.filter(x => !(x instanceof PipelineSlot)) as Function[];
+
+    // the steps of the slots between two built-in steps are resolved when the pipeline reaches them,
+    // to run the steps added during the navigation, such as those of a child router configured when its route is loaded
+    for (let i = 0, ii = builtInSteps.length; i <= ii; ++i) {
+      let previousStep = builtInSteps[i - 1];
+      pipeline._addSlotSteps(() => this._resolveSlotSteps(previousStep));
+
+      let step = builtInSteps[i];
+      if (step && (useCanDeactivateStep || step !== CanDeactivatePreviousStep)) {
+        pipeline.addStep(container.get(step));
       }
-    });
+    }
+
     return pipeline;
   }
 
+  /**
+   * Lists the steps of the navigation pipeline, in the order they run.
+   */
+  getPipelineDescription(): PipelineStepDescription[] {
+    return this._resolveSteps().map(({ step, slot }) => {
+      let description: PipelineStepDescription = { name: getStepName(step as PipelineStep), step };
+      if (slot) {
+        description.slot = slot.slotName;
+      }
+      return description;
+    });
+  }
+
   /**@internal */
   _findStep(name: string): PipelineSlot {
     // Steps that are not PipelineSlots are constructor functions, and they will automatically fail. Probably.
     return this.steps.find(x => (x as PipelineSlot).slotName === name || (x as PipelineSlot).slotAlias === name) as PipelineSlot;
   }
 
+  /**
+   * Adds a named slot into the pipeline, where steps can then be added.
+   * Adding a slot with the name of an existing slot has no effect.
+   *
+   * @param name The name of the slot.
+   * @param options The position of the slot, relative to another slot or to a built-in step.
+   */
+  addSlot(name: string, options: PipelineSlotOptions = {}): void {
+    if (this._findStep(name)) {
+      return;
+    }
+
+    let { before, after } = options;
+    if (before && after) {
+      throw new Error(`Pipeline slot cannot be added both before and after other steps: ${name}.`);
+    }
+
+    let index = this.steps.length;
+    let ref = before || after;
+    if (ref) {
+      let refStep = typeof ref === 'string' ? this._findStep(ref) : ref;
+      let refIndex = this.steps.indexOf(refStep);
+      if (refIndex === -1) {
+        throw new Error(`Invalid pipeline slot position: ${typeof ref === 'string' ? ref : ref.name}.`);
+      }
+      index = before ? refIndex : refIndex + 1;
+    }
+
+    let slot = createPipelineSlot(this.container, name);
+    slot.isCustom = true;
+    this.steps.splice(index, 0, slot);
+  }
+
   /**
    * Adds a step into the pipeline at a known slot location.
+   *
+   * @param name The name of the pipeline slot to add the step to.
+   * @param step The pipeline step.
+   * @param options Options to run the step before or after another step of the slot, or a built-in step,
+   * or to prioritize it over the other steps of the slot.
    */
-  addStep(name: string, step: PipelineStep | Function): void {
+  addStep(name: string, step: PipelineStep | Function, options: PipelineStepOptions = {}): void {
     let found = this._findStep(name);
     if (found) {
-      let slotSteps = found.steps;
+      if (options.before && options.after) {
+        throw new Error(`Pipeline step cannot be added both before and after other steps in slot: ${name}.`);
+      }
       // prevent duplicates
-      if (!slotSteps.includes(step)) {
-        slotSteps.push(step);
+      if (found.indexOf(step) === -1) {
+        found.entries.push(Object.assign({ step }, options));
       }
     } else {
       throw new Error(`Invalid pipeline slot name: ${name}.`);
@@ -100,11 +215,13 @@ export class PipelineProvider {
   /**
    * Removes a step from a slot in the pipeline
    */
-  removeStep(name: string, step: PipelineStep): void {
+  removeStep(name: string, step: PipelineStep | Function): void {
     let slot = this._findStep(name);
     if (slot) {
-      let slotSteps = slot.steps;
-      slotSteps.splice(slotSteps.indexOf(step), 1);
+      let index = slot.indexOf(step);
+      if (index !== -1) {
+        slot.entries.splice(index, 1);
+      }
     }
   }
 
@@ -115,22 +232,113 @@ export class PipelineProvider {
   _clearSteps(name: string = ''): void {
     let slot = this._findStep(name);
     if (slot) {
-      slot.steps = [];
+      slot.entries = [];
     }
   }
 
   /**
-   * Resets all pipeline slots
+   * Resets all pipeline slots, and removes custom slots
    */
   reset(): void {
+    this.steps = this.steps.filter(x => !(x instanceof PipelineSlot && x.isCustom));
     this._clearSteps(PipelineSlotName.Authorize);
     this._clearSteps(PipelineSlotName.PreActivate);
     this._clearSteps(PipelineSlotName.PreRender);
     this._clearSteps(PipelineSlotName.PostRender);
   }
+
+  /**
+   * Resolves the steps of the slots running after a built-in step, or before the first built-in step
+   * @internal
+   */
+  _resolveSlotSteps(builtInStep?: Function): IPipelineSlotStep[] {
+    let resolvedSteps = this._resolveSteps();
+    let slotSteps: IPipelineSlotStep[] = [];
+    let index = builtInStep ? resolvedSteps.findIndex(x => !x.slot && x.step === builtInStep) + 1 : 0;
+    for (let ii = resolvedSteps.length; index < ii && resolvedSteps[index].slot; ++index) {
+      let { step, slot } = resolvedSteps[index];
+      slotSteps.push({ step: this.container.get(step), slot: slot.slotName });
+    }
+    return slotSteps;
+  }
+
+  /**
+   * Resolves the order of the built-in steps and of the steps added to slots
+   * @internal
+   */
+  _resolveSteps(): IResolvedStep[] {
+    let steps = this.steps;
+    let slots = steps.filter(x => x instanceof PipelineSlot) as PipelineSlot[];
+    let builtInSteps = steps.filter(x => !(x instanceof PipelineSlot)) as Function[];
+    let anchoredEntries: IResolvedSlotEntry[] = [];
+    let slotEntries = new Map<PipelineSlot, IResolvedSlotEntry[]>();
+
+    let index = 0;
+    for (let slot of slots) {
+      let entries: IResolvedSlotEntry[] = [];
+      for (let entry of slot.entries) {
+        let resolvedEntry: IResolvedSlotEntry = { entry, slot, index: index++ };
+        let ref = entry.before || entry.after;
+        if (ref && builtInSteps.includes(ref as Function)) {
+          anchoredEntries.push(resolvedEntry);
+        } else {
+          entries.push(resolvedEntry);
+        }
+      }
+      slotEntries.set(slot, orderSlotEntries(entries));
+    }
+    anchoredEntries.sort(byPriority);
+
+    let resolvedSteps: IResolvedStep[] = [];
+    let toResolvedStep = ({ entry, slot }: IResolvedSlotEntry): IResolvedStep => ({ step: entry.step, slot });
+    for (let step of steps) {
+      if (step instanceof PipelineSlot) {
+        resolvedSteps.push(...slotEntries.get(step).map(toResolvedStep));
+      } else {
+        resolvedSteps.push(
+          ...anchoredEntries.filter(x => x.entry.before === step).map(toResolvedStep),
+          { step },
+          ...anchoredEntries.filter(x => x.entry.after === step).map(toResolvedStep)
+        );
+      }
+    }
+
+    return resolvedSteps;
+  }
 }
 
 /**@internal */
-const createPipelineSlot = (container: Container, name: PipelineSlotName, alias?: string): PipelineSlot => {
+const createPipelineSlot = (container: Container, name: string, alias?: string): PipelineSlot => {
   return new PipelineSlot(container, name, alias);
 };
+
+const byPriority = (a: IResolvedSlotEntry, b: IResolvedSlotEntry): number => {
+  return ((b.entry.priority || 0) - (a.entry.priority || 0)) || a.index - b.index;
+};
+
+/**
+ * Order the steps of a slot by priority, then move the steps referencing another step of the slot next to it
+ */
+const orderSlotEntries = (entries: IResolvedSlotEntry[]): IResolvedSlotEntry[] => {
+  let ordered = entries.slice().sort(byPriority);
+
+  for (let resolvedEntry of entries) {
+    let { before, after } = resolvedEntry.entry;
+    let ref = before || after;
+    if (!ref) {
+      continue;
+    }
+
+    let refEntry = ordered.find(x => x.entry.step === ref);
+    // a reference to a step that was not added (yet) leaves the step at its prioritized position
+    if (!refEntry || refEntry === resolvedEntry) {
+      continue;
+    }
+
+    ordered.splice(ordered.indexOf(resolvedEntry), 1);
+    let refIndex = ordered.indexOf(refEntry);
+    ordered.splice(before ? refIndex : refIndex + 1, 0, resolvedEntry);
+  }
+
+  return ordered;
+};
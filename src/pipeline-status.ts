@@ -5,5 +5,6 @@ export const enum PipelineStatus {
   Completed = 'completed',
   Canceled = 'canceled',
   Rejected = 'rejected',
+  Superseded = 'superseded',
   Running = 'running'
 }
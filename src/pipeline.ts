@@ -1,6 +1,35 @@
-import { PipelineStep, PipelineResult, Next, StepRunnerFunction, IPipelineSlot } from './interfaces';
-import { NavigationInstruction } from './navigation-instruction';
+import {
+  PipelineStep,
+  PipelineResult,
+  Next,
+  StepRunnerFunction,
+  IPipelineSlot,
+  PipelineStepTiming,
+  PipelineTimings
+} from './interfaces';
+import { NavigationInstruction, isSuperseded } from './navigation-instruction';
 import { createNextFn } from './next';
+import { PipelineStatus } from './pipeline-status';
+
+/**@internal */
+interface IPipelineStepInfo {
+  step: StepRunnerFunction | PipelineStep;
+  name: string;
+  slot?: string;
+  /**
+   * Resolves the steps of slots when the pipeline reaches them
+   */
+  resolveSlotSteps?: () => IPipelineSlotStep[];
+}
+
+/**
+ * A step of a pipeline slot, and the name of the slot
+ * @internal
+ */
+export interface IPipelineSlotStep {
+  step: StepRunnerFunction | PipelineStep;
+  slot: string;
+}
 
 /**
  * The class responsible for managing and processing the navigation pipeline.
@@ -12,30 +41,68 @@ export class Pipeline {
    */
   steps: StepRunnerFunction[] = [];
 
+  /**
+   * The added steps and their names, in the same order as the running functions
+   * @internal
+   */
+  _stepInfos: IPipelineStepInfo[] = [];
+
+  /**
+   * Invoked when a step continues to the next step of the pipeline
+   * @internal
+   */
+  _onStepComplete: (step: StepRunnerFunction | PipelineStep, timing: PipelineStepTiming, instruction: NavigationInstruction) => void;
+
   /**
    * Adds a step to the pipeline.
    *
    * @param step The pipeline step.
    */
   addStep(step: StepRunnerFunction | PipelineStep | IPipelineSlot): Pipeline {
-    let run;
+    let run: StepRunnerFunction;
 
     if (typeof step === 'function') {
       run = step;
     } else if (typeof step.getSteps === 'function') {
       // getSteps is to enable support open slots
       // where devs can add multiple steps into the same slot name
+      let start = this._stepInfos.length;
       let steps = step.getSteps();
       for (let i = 0, l = steps.length; i < l; i++) {
         this.addStep(steps[i]);
       }
 
+      let slotName = (step as IPipelineSlot).slotName;
+      for (let i = start, l = this._stepInfos.length; i < l; i++) {
+        let info = this._stepInfos[i];
+        info.slot = info.slot || slotName;
+      }
+
       return this;
     } else {
       run = (step as PipelineStep).run.bind(step);
     }
 
     this.steps.push(run);
+    this._stepInfos.push({ step: step as PipelineStep, name: getStepName(step as PipelineStep) });
+
+    return this;
+  }
+
+  /**
+   * Adds the steps of slots that are resolved when the pipeline reaches them, rather than when they are added,
+   * so that the steps added to the slots during a navigation run in that navigation too.
+   *
+   * @param resolveSlotSteps Resolves the steps of the slots, in order.
+   * @internal
+   */
+  _addSlotSteps(resolveSlotSteps: () => IPipelineSlotStep[]): Pipeline {
+    let run: StepRunnerFunction = (instruction: NavigationInstruction, next: Next) => {
+      return runSlotSteps(resolveSlotSteps(), instruction, next, slotStep => toStepRunner(slotStep.step));
+    };
+
+    this.steps.push(run);
+    this._stepInfos.push({ step: run, name: 'slots', resolveSlotSteps });
 
     return this;
   }
@@ -46,7 +113,117 @@ export class Pipeline {
    * @param instruction The navigation instruction to process.
    */
   run(instruction: NavigationInstruction): Promise<PipelineResult> {
-    const nextFn = createNextFn(instruction, this.steps);
-    return nextFn();
+    const timings: PipelineTimings = { duration: 0, steps: [] };
+    const start = now();
+    const steps = this.steps.map((step, i) => {
+      let info = this._stepInfos[i] || { step, name: getStepName(step) };
+      if (info.resolveSlotSteps) {
+        // each step of the slots is timed rather than the slots as a whole
+        let resolveSlotSteps = info.resolveSlotSteps;
+        return ((nav: NavigationInstruction, next: Next) => runSlotSteps(resolveSlotSteps(), nav, next, slotStep => timeStep(
+          toStepRunner(slotStep.step),
+          { step: slotStep.step, name: getStepName(slotStep.step), slot: slotStep.slot },
+          timings,
+          this._onStepComplete
+        ))) as StepRunnerFunction;
+      }
+      return timeStep(step, info, timings, this._onStepComplete);
+    });
+    const nextFn = createNextFn(instruction, steps);
+    return Promise
+      .resolve(nextFn())
+      .then((result: PipelineResult) => {
+        // however a step stopped processing, an unfinished navigation that has been aborted
+        // is reported as superseded rather than canceled or rejected
+        if (result && !result.completed && isSuperseded(instruction)) {
+          result.status = PipelineStatus.Superseded;
+        }
+        if (result) {
+          timings.duration = now() - start;
+          result.timings = timings;
+        }
+        return result;
+      });
   }
 }
+
+/**
+ * Runs the steps of slots, then continues with the next step of the pipeline
+ *
+ * @param wrap Creates the running function of a step.
+ */
+const runSlotSteps = (
+  slotSteps: IPipelineSlotStep[],
+  instruction: NavigationInstruction,
+  next: Next,
+  wrap: (slotStep: IPipelineSlotStep) => StepRunnerFunction
+): Promise<any> => {
+  let steps = slotSteps.map(wrap);
+  steps.push(() => next());
+  return createNextFn(instruction, steps)();
+};
+
+const toStepRunner = (step: StepRunnerFunction | PipelineStep): StepRunnerFunction => {
+  return typeof step === 'function' ? step : step.run.bind(step);
+};
+
+/**
+ * Wraps a step running function to measure the time until the step continues to the next step or ends the pipeline run
+ * @internal exported for unit testing
+ */
+export const timeStep = (
+  runStep: StepRunnerFunction,
+  info: IPipelineStepInfo,
+  timings: PipelineTimings,
+  onStepComplete?: (step: StepRunnerFunction | PipelineStep, timing: PipelineStepTiming, instruction: NavigationInstruction) => void
+): StepRunnerFunction => {
+  return function(this: any, instruction: NavigationInstruction, next: Next) {
+    const start = now();
+    let timing: PipelineStepTiming;
+
+    const stop = (): boolean => {
+      if (timing) {
+        return false;
+      }
+      timing = { name: info.name, duration: now() - start };
+      if (info.slot) {
+        timing.slot = info.slot;
+      }
+      timings.steps.push(timing);
+      return true;
+    };
+
+    const timedNext = function() {
+      if (stop() && onStepComplete) {
+        onStepComplete(info.step, timing, instruction);
+      }
+      return next();
+    } as Next;
+    timedNext.complete = (output?: any) => (stop(), next.complete(output));
+    timedNext.cancel = (output?: any) => (stop(), next.cancel(output));
+    timedNext.reject = (output?: any) => (stop(), next.reject(output));
+
+    try {
+      return runStep.call(this, instruction, timedNext);
+    } catch (e) {
+      stop();
+      throw e;
+    }
+  } as StepRunnerFunction;
+};
+
+/**
+ * Get the name of a step, or of the class of a step
+ * @internal exported for use in pipeline descriptions
+ */
+export const getStepName = (step: StepRunnerFunction | PipelineStep): string => {
+  let name = (step as PipelineStep).name;
+  if (typeof step !== 'function' && typeof name !== 'string') {
+    name = step.constructor && step.constructor !== Object ? step.constructor.name : '';
+  }
+  return name || 'anonymous';
+};
+
+const now = (): number => typeof performance !== 'undefined' && typeof performance.now === 'function'
+  ? performance.now()
+  : Date.now();
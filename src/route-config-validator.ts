@@ -0,0 +1,212 @@
+import * as LogManager from 'aurelia-logging';
+import { RouteRecognizer, RouteHandler } from 'aurelia-route-recognizer';
+import { RouteConfig, RouteConfigProblem } from './interfaces';
+import { RouterConfiguration } from './router-configuration';
+import { getRouteParamType } from './route-params';
+import { routeManifestSchema } from './route-manifest-schema';
+
+const logger = LogManager.getLogger('route-config-validator');
+
+/**
+ * The options of route configs: the serializable ones, described by the route manifest schema, and those set at runtime
+ */
+const knownKeys = Object.keys(routeManifestSchema.definitions.route.properties).concat([
+  'resolve', 'navModel', 'hasChildRouter', 'currentViewPort'
+]);
+
+const layoutKeys = ['layoutView', 'layoutViewModel', 'layoutModel'];
+
+const isAbsoluteUrl = /^([a-z][a-z0-9+\-.]*:)?\/\//i;
+
+/**
+ * Validates route configs, reporting every problem found instead of stopping at the first one. Besides the configs
+ * [[Router.addRoute]] rejects, this reports keys that look like typos of known keys, view ports without a module,
+ * dynamic routes in the navigation model without an `href`, redirects to URLs no route matches,
+ * and layout options of redirect routes, which are ignored.
+ *
+ * @param routes The route configs to validate.
+ * @param includeChildren Whether to validate the declared child routes too. Defaults to true.
+ * @param customKeys The custom keys of the route configs, never reported as typos of known keys.
+ * @returns The problems found, in the order of the route configs.
+ */
+export const validateRoutes = (routes: RouteConfig[], includeChildren: boolean = true, customKeys: string[] = []): RouteConfigProblem[] => {
+  let problems: RouteConfigProblem[] = [];
+  let recognizer = createRedirectRecognizer(routes);
+
+  for (let config of routes) {
+    validateRoute(config, recognizer, customKeys, problems);
+    if (includeChildren && config && Array.isArray(config.children)) {
+      problems.push(...validateRoutes(config.children, true, customKeys));
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Validates the routes mapped by a router configuration, without a router.
+ *
+ * @param configuration The router configuration to validate.
+ */
+export const validateRouterConfiguration = (configuration: RouterConfiguration): RouteConfigProblem[] => {
+  return validateRoutes(configuration._routes, true, configuration.options.customRouteKeys);
+};
+
+/**
+ * Warns about the problems of route configs, or throws when the `strictRoutes` option is enabled.
+ * @internal
+ */
+export const reportRouteConfigProblems = (problems: RouteConfigProblem[], strict: boolean): void => {
+  if (!problems.length) {
+    return;
+  }
+
+  if (strict) {
+    throw new Error(problems.map(problem => problem.message).join('\n'));
+  }
+
+  for (let problem of problems) {
+    logger.warn(problem.message);
+  }
+};
+
+/**
+ * Finds the problems that make [[Router.addRoute]] reject a route config, the first one being the error it throws.
+ *
+ * @param withName Whether the messages name the route besides its pattern. The errors thrown by the router only give the pattern.
+ * @internal exported for use in other modules
+ */
+export const findRouteConfigErrors = (config: RouteConfig, withName: boolean = true): RouteConfigProblem[] => {
+  if (!config || typeof config !== 'object') {
+    return [{ config, message: 'Invalid Route Config' }];
+  }
+
+  let problems: RouteConfigProblem[] = [];
+  let report = (message: string) => problems.push({ config, message: `Invalid Route Config for ${describeRoute(config, withName)}: ${message}` });
+  let patterns = ([] as any[]).concat(config.route);
+
+  if (!patterns.length || patterns.some(pattern => typeof pattern !== 'string')) {
+    report('You must specify a "route:" pattern.');
+  }
+
+  if (!('redirect' in config || config.moduleId || config.navigationStrategy || config.viewPorts)) {
+    report('You must specify a "moduleId:", "redirect:", "navigationStrategy:", or "viewPorts:".');
+  }
+
+  let children = config.children;
+  if (children && !Array.isArray(children) && typeof children !== 'function') {
+    report('"children:" must be an array of route configs, or a function returning them.');
+  }
+
+  let queryParamsBehavior = config.queryParamsBehavior;
+  if (queryParamsBehavior && ['ignore', 'invoke-lifecycle', 'notify'].indexOf(queryParamsBehavior) === -1) {
+    report(`Unknown "queryParamsBehavior:" "${queryParamsBehavior}".`);
+  }
+
+  let paramsSchema = config.params;
+  for (let name in paramsSchema) {
+    if (!getRouteParamType(paramsSchema[name])) {
+      report(`Unknown type "${paramsSchema[name]}" for route parameter "${name}".`);
+    }
+  }
+
+  return problems;
+};
+
+const validateRoute = (config: RouteConfig, recognizer: RouteRecognizer, customKeys: string[], problems: RouteConfigProblem[]): void => {
+  problems.push(...findRouteConfigErrors(config));
+  if (!config || typeof config !== 'object') {
+    return;
+  }
+
+  let report = (message: string) => problems.push({ config, message: `Invalid Route Config for ${describeRoute(config)}: ${message}` });
+  let patterns = ([] as any[]).concat(config.route);
+
+  for (let key of Object.keys(config)) {
+    let knownKey = knownKeys.indexOf(key) === -1 && customKeys.indexOf(key) === -1 ? findSimilarKey(key) : null;
+    if (knownKey) {
+      report(`Unknown key "${key}", did you mean "${knownKey}"?`);
+    }
+  }
+
+  let viewPorts = config.viewPorts;
+  for (let viewPortName in viewPorts) {
+    let viewPortConfig = viewPorts[viewPortName];
+    if (!viewPortConfig || typeof viewPortConfig !== 'object' || !('moduleId' in viewPortConfig)) {
+      report(`The "${viewPortName}" view port must specify a "moduleId:".`);
+    }
+  }
+
+  let inNavigation = config.nav || config.nav === 0;
+  if (inNavigation && !config.href && config.href !== '' && patterns.some(pattern => /(^|\/)[:*]/.test(pattern))) {
+    report('Dynamic routes must specify an "href:" to be included in the navigation model.');
+  }
+
+  if ('redirect' in config) {
+    let ignoredKeys = layoutKeys.filter(key => key in config);
+    if (ignoredKeys.length) {
+      report(`Redirect routes ignore the layout options ${ignoredKeys.map(key => `"${key}:"`).join(', ')}.`);
+    }
+
+    let redirect = config.redirect;
+    if (typeof redirect === 'string' && !isAbsoluteUrl.test(redirect) && !recognizer.recognize(redirect.split(/[?#]/)[0])) {
+      report(`The redirect target "${redirect}" does not match any route.`);
+    }
+  }
+};
+
+const describeRoute = (config: RouteConfig, withName: boolean = true): string => {
+  let patterns = ([] as any[]).concat(config.route);
+  if (!patterns.length || patterns.some(pattern => typeof pattern !== 'string')) {
+    return `"${config.name || '(no name)'}"`;
+  }
+  let route = patterns.join('", "');
+  return withName && config.name ? `"${route}" (${config.name})` : `"${route}"`;
+};
+
+/**
+ * Creates a recognizer matching the URLs of routes, and of potential child routes, to resolve redirects with.
+ */
+const createRedirectRecognizer = (routes: RouteConfig[]): RouteRecognizer => {
+  let recognizer = new RouteRecognizer();
+  for (let config of routes) {
+    for (let pattern of config ? ([] as any[]).concat(config.route) : []) {
+      if (typeof pattern !== 'string') {
+        continue;
+      }
+      let path = pattern.replace(/^\//, '');
+      let caseSensitive = config.caseSensitive === true;
+      recognizer.add({ path, handler: {} as RouteHandler, caseSensitive });
+      if (path) {
+        recognizer.add({ path: `${path}/*childRoute`, handler: {} as RouteHandler, caseSensitive });
+      }
+    }
+  }
+  return recognizer;
+};
+
+/**
+ * Finds the known key an unknown key is likely a typo of: same letters in a different case,
+ * or at most two edits away for keys long enough.
+ */
+const findSimilarKey = (key: string): string | null => {
+  let lowerCaseKey = key.toLowerCase();
+  for (let knownKey of knownKeys) {
+    if (knownKey.toLowerCase() === lowerCaseKey || key.length > 4 && getEditDistance(knownKey.toLowerCase(), lowerCaseKey) <= 2) {
+      return knownKey;
+    }
+  }
+  return null;
+};
+
+const getEditDistance = (a: string, b: string): number => {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; ++i) {
+    let row = [i];
+    for (let j = 1; j <= b.length; ++j) {
+      row[j] = Math.min(row[j - 1] + 1, previousRow[j] + 1, previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length];
+};
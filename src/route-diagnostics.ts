@@ -0,0 +1,192 @@
+import * as LogManager from 'aurelia-logging';
+import { RouteConfig, RouteDiagnostic } from './interfaces';
+import { Router, findRouterOption } from './router';
+
+const logger = LogManager.getLogger('route-diagnostics');
+
+const enum SegmentType {
+  Static,
+  Dynamic,
+  Star
+}
+
+interface PatternSegment {
+  type: SegmentType;
+  value: string;
+}
+
+/**
+ * Finds the problems in the routes of a router: routes sharing a name, routes never matched because of other routes,
+ * and routes matching the same URLs in an unspecified order.
+ *
+ * @param router The router to inspect.
+ */
+export const diagnoseRoutes = (router: Router): RouteDiagnostic[] => {
+  let diagnostics: RouteDiagnostic[] = [];
+  // the configs of a route with multiple patterns share a nav model
+  let routes = router._recognizerEntries.map(entry => entry.config);
+
+  routes.forEach((route, index) => {
+    let duplicate = routes.find((other, otherIndex) => otherIndex < index
+      && !!route.name && other.name === route.name && other.navModel !== route.navModel);
+    if (duplicate) {
+      diagnostics.push({
+        kind: 'duplicate-name',
+        message: `Routes ${describeRoute(duplicate)} and ${describeRoute(route)} have the same name, only the first one is used to generate URLs.`,
+        routes: [duplicate, route]
+      });
+    }
+  });
+
+  let patterns = routes.map(parsePattern);
+  for (let i = 0, ii = routes.length; i < ii; ++i) {
+    for (let j = i + 1; j < ii; ++j) {
+      let diagnostic = comparePatterns(routes[i], patterns[i], routes[j], patterns[j]);
+      if (diagnostic) {
+        diagnostics.push(diagnostic);
+      }
+    }
+  }
+
+  return diagnostics;
+};
+
+/**
+ * Warns about the problems in the routes of a router, or throws when the `strictRoutes` option is enabled.
+ * @internal
+ */
+export const reportRouteDiagnostics = (router: Router): void => {
+  let diagnostics = diagnoseRoutes(router);
+  if (!diagnostics.length) {
+    return;
+  }
+
+  if (findRouterOption(router, 'strictRoutes')) {
+    throw new Error(diagnostics.map(diagnostic => diagnostic.message).join('\n'));
+  }
+
+  for (let diagnostic of diagnostics) {
+    logger.warn(diagnostic.message);
+  }
+};
+
+const describeRoute = (config: RouteConfig): string => {
+  return config.name ? `"${config.route}" (${config.name})` : `"${config.route}"`;
+};
+
+/**
+ * Parses a route pattern into segments, or returns null for patterns with optional segments, which are not compared.
+ */
+const parsePattern = (config: RouteConfig): PatternSegment[] | null => {
+  let path = (config.route as string).replace(/^\//, '');
+  let segments: PatternSegment[] = [];
+  for (let segment of path ? path.split('/') : []) {
+    if (segment.charAt(0) === ':') {
+      if (segment.charAt(segment.length - 1) === '?') {
+        return null;
+      }
+      segments.push({ type: SegmentType.Dynamic, value: segment });
+    } else if (segment.charAt(0) === '*') {
+      segments.push({ type: SegmentType.Star, value: segment });
+    } else if (segment) {
+      segments.push({ type: SegmentType.Static, value: config.caseSensitive ? segment : segment.toLowerCase() });
+    }
+  }
+  return segments;
+};
+
+/**
+ * Determines whether a pattern matches every URL another pattern matches.
+ */
+const covers = (pattern: PatternSegment[], other: PatternSegment[]): boolean => {
+  for (let i = 0, ii = pattern.length; i < ii; ++i) {
+    let segment = pattern[i];
+    let otherSegment = other[i];
+    if (segment.type === SegmentType.Star) {
+      return !!otherSegment;
+    }
+    if (!otherSegment || otherSegment.type === SegmentType.Star
+      || segment.type === SegmentType.Static && (otherSegment.type !== SegmentType.Static || otherSegment.value !== segment.value)) {
+      return false;
+    }
+  }
+  return pattern.length === other.length;
+};
+
+/**
+ * Gets a URL matched by two patterns, if any.
+ */
+const findCommonUrl = (pattern: PatternSegment[], other: PatternSegment[]): string | null => {
+  let url: string[] = [];
+  for (let i = 0, ii = Math.max(pattern.length, other.length); i < ii; ++i) {
+    let segment = pattern[i];
+    let otherSegment = other[i];
+    if (!segment || !otherSegment) {
+      return null;
+    }
+    if (segment.type === SegmentType.Star || otherSegment.type === SegmentType.Star) {
+      let rest = segment.type === SegmentType.Star ? other.slice(i) : pattern.slice(i);
+      return url.concat(rest.map(x => x.value)).join('/');
+    }
+    if (segment.type === SegmentType.Static && otherSegment.type === SegmentType.Static && segment.value !== otherSegment.value) {
+      return null;
+    }
+    url.push(segment.type === SegmentType.Static ? segment.value : otherSegment.value);
+  }
+  return url.join('/');
+};
+
+const countTypes = (pattern: PatternSegment[]): string => {
+  return [SegmentType.Static, SegmentType.Dynamic, SegmentType.Star]
+    .map(type => pattern.filter(segment => segment.type === type).length)
+    .join();
+};
+
+/**
+ * Compares the patterns of two routes, the first one being registered before the second one.
+ */
+const comparePatterns = (
+  first: RouteConfig,
+  firstPattern: PatternSegment[] | null,
+  second: RouteConfig,
+  secondPattern: PatternSegment[] | null
+): RouteDiagnostic | null => {
+  if (!firstPattern || !secondPattern) {
+    return null;
+  }
+
+  let firstPriority = first.priority || 0;
+  let secondPriority = second.priority || 0;
+  let firstCovers = covers(firstPattern, secondPattern);
+  let secondCovers = covers(secondPattern, firstPattern);
+
+  // routes with the same segments share a recognizer state, where the last registered route wins,
+  // and routes with param constraints let the URLs they reject through
+  let shadowed: RouteConfig;
+  let shadowing: RouteConfig;
+  if (secondCovers && !second.params && (secondPriority > firstPriority || secondPriority === firstPriority && firstCovers)) {
+    [shadowed, shadowing] = [first, second];
+  } else if (firstCovers && !first.params && firstPriority > secondPriority) {
+    [shadowed, shadowing] = [second, first];
+  }
+
+  if (shadowed) {
+    return {
+      kind: 'shadowed',
+      message: `Route ${describeRoute(shadowed)} is never matched, as route ${describeRoute(shadowing)} matches all of its URLs first.`,
+      routes: [shadowed, shadowing]
+    };
+  }
+
+  if (firstPriority !== secondPriority || firstCovers || secondCovers || countTypes(firstPattern) !== countTypes(secondPattern)) {
+    return null;
+  }
+
+  let url = findCommonUrl(firstPattern, secondPattern);
+  return url === null ? null : {
+    kind: 'ambiguous',
+    message: `Routes ${describeRoute(first)} and ${describeRoute(second)} both match URLs like "${url}". `
+      + 'Give one of them a higher priority to choose between them.',
+    routes: [first, second]
+  };
+};
@@ -15,4 +15,11 @@ export class RouteLoader {
   loadRoute(router: Router, config: RouteConfig, navigationInstruction: NavigationInstruction): Promise</*ViewPortInstruction*/any> {
     throw new Error('Route loaders must implement "loadRoute(router, config, navigationInstruction)".');
   }
+
+  /**
+   * Preload the module of a view port config, ahead of a navigation to its route.
+   * Route loaders that do not implement this hook are never asked to preload modules.
+   * The component it resolves to, if any, is used by the next navigation to the route instead of calling [[loadRoute]].
+   */
+  preload?(config: RouteConfig): Promise<any>;
 }
@@ -0,0 +1,85 @@
+/**
+ * The JSON schema of [[RouteManifest]]s, to validate manifests before mapping them.
+ */
+export const routeManifestSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Route manifest',
+  type: 'object',
+  required: ['routes'],
+  additionalProperties: false,
+  properties: {
+    title: { type: 'string' },
+    routes: { type: 'array', items: { $ref: '#/definitions/route' } }
+  },
+  definitions: {
+    route: {
+      type: 'object',
+      required: ['route'],
+      additionalProperties: false,
+      anyOf: [
+        { required: ['moduleId'] },
+        { required: ['redirect'] },
+        { required: ['navigationStrategy'] },
+        { required: ['viewPorts'] }
+      ],
+      properties: {
+        route: {
+          oneOf: [
+            { type: 'string' },
+            { type: 'array', items: { type: 'string' }, minItems: 1 }
+          ]
+        },
+        name: { type: 'string' },
+        moduleId: { type: 'string' },
+        view: { type: 'string' },
+        redirect: { type: 'string' },
+        viewPorts: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            required: ['moduleId'],
+            properties: {
+              moduleId: { type: ['string', 'null'] }
+            }
+          }
+        },
+        nav: { type: ['boolean', 'number'] },
+        href: { type: 'string' },
+        generationUsesHref: { type: 'boolean' },
+        title: { type: 'string' },
+        settings: { type: 'object' },
+        caseSensitive: { type: 'boolean' },
+        priority: { type: 'number' },
+        params: {
+          type: 'object',
+          additionalProperties: { enum: ['int', 'number', 'boolean', 'string'] }
+        },
+        activationStrategy: { enum: ['no-change', 'invoke-lifecycle', 'replace'] },
+        queryParamsBehavior: { enum: ['ignore', 'invoke-lifecycle', 'notify'] },
+        keepAlive: {
+          oneOf: [
+            { type: 'boolean' },
+            {
+              type: 'object',
+              required: ['max'],
+              additionalProperties: false,
+              properties: { max: { type: 'integer', minimum: 1 } }
+            }
+          ]
+        },
+        transition: {
+          type: 'object',
+          additionalProperties: false,
+          properties: { mode: { enum: ['simultaneous', 'sequential'] } }
+        },
+        layoutView: { type: 'string' },
+        layoutViewModel: { type: 'string' },
+        layoutModel: {},
+        canActivate: { type: 'array', items: { type: 'string' } },
+        canDeactivate: { type: 'array', items: { type: 'string' } },
+        navigationStrategy: { type: 'string' },
+        children: { type: 'array', items: { $ref: '#/definitions/route' } }
+      }
+    }
+  }
+};
@@ -0,0 +1,159 @@
+import { RouteConfig, RouteManifest, RouteManifestRoute } from './interfaces';
+import { RouteRegistry } from './route-registry';
+import { routeManifestSchema } from './route-manifest-schema';
+import { Router } from './router';
+
+/**
+ * The options of routes that manifests describe with the names of the registry, or recursively
+ */
+const referenceKeys = ['route', 'canActivate', 'canDeactivate', 'navigationStrategy', 'children'];
+
+/**
+ * The options of route configs copied as they are between route configs and manifests: the other options of the schema
+ */
+const dataKeys = Object.keys(routeManifestSchema.definitions.route.properties).filter(key => referenceKeys.indexOf(key) === -1);
+
+/**
+ * Creates the route configs described by the routes of a manifest, looking up their guards
+ * and navigation strategies in a registry.
+ * @internal exported for use in other modules
+ */
+export const routesFromManifest = (routes: RouteManifestRoute[], registry: RouteRegistry): RouteConfig[] => {
+  return routes.map(route => {
+    let config = { route: route.route } as RouteConfig;
+    copyDataKeys(route, config);
+
+    if (route.canActivate) {
+      config.canActivate = route.canActivate.map(name => registry.getGuard(name));
+    }
+    if (route.canDeactivate) {
+      config.canDeactivate = route.canDeactivate.map(name => registry.getGuard(name));
+    }
+    if (route.navigationStrategy) {
+      config.navigationStrategy = registry.getNavigationStrategy(route.navigationStrategy);
+    }
+    if (route.children) {
+      config.children = routesFromManifest(route.children, registry);
+    }
+
+    return config;
+  });
+};
+
+/**
+ * Describes route configs as the routes of a manifest, naming their guards and navigation strategies
+ * with a registry. The configs registered for each pattern of a route are merged back into one route.
+ * @internal exported for use in other modules
+ */
+export const routesToManifest = (configs: RouteConfig[], registry: RouteRegistry): RouteManifestRoute[] => {
+  let routes: RouteManifestRoute[] = [];
+  let navModelRoutes = new Map<any, RouteManifestRoute>();
+
+  for (let config of configs) {
+    let sharedRoute = config.navModel && navModelRoutes.get(config.navModel);
+    if (sharedRoute) {
+      sharedRoute.route = ([] as string[]).concat(sharedRoute.route, config.route);
+      continue;
+    }
+
+    let route = routeToManifest(config, registry);
+    if (config.navModel) {
+      navModelRoutes.set(config.navModel, route);
+    }
+    routes.push(route);
+  }
+
+  return routes;
+};
+
+/**
+ * Exports the routes of a router as a manifest, which can be mapped again with [[RouterConfiguration.mapManifest]].
+ *
+ * @param router The router to export.
+ * @param registry The registry naming the guards and navigation strategies of the routes.
+ * @throws When a route has options that can't be serialized, such as resolvers or unregistered guards.
+ */
+export const exportRouteManifest = (router: Router, registry: RouteRegistry = new RouteRegistry()): RouteManifest => {
+  let manifest: RouteManifest = { routes: routesToManifest(router.routes, registry) };
+  if (router.title) {
+    manifest.title = router.title;
+  }
+  return manifest;
+};
+
+const routeToManifest = (config: RouteConfig, registry: RouteRegistry): RouteManifestRoute => {
+  let fail = (key: string) => {
+    throw new Error(`Route "${config.route}" cannot be exported to a manifest: its "${key}:" can't be serialized.`);
+  };
+  let route = { route: config.route } as RouteManifestRoute;
+  copyDataKeys(config, route);
+
+  // options set when the route is registered
+  if (route.settings && !Object.keys(route.settings).length) {
+    delete route.settings;
+  }
+  if (isDefaultViewPorts(config)) {
+    delete route.viewPorts;
+  }
+
+  for (let name in config.params) {
+    if (typeof config.params[name] !== 'string') {
+      fail('params');
+    }
+  }
+  if (config.transition && config.transition.coordinator) {
+    fail('transition');
+  }
+  if (config.resolve) {
+    fail('resolve');
+  }
+
+  for (let key of ['canActivate', 'canDeactivate']) {
+    if (config[key]) {
+      route[key as 'canActivate'] = config[key].map((guard: any) => registry.getGuardName(guard) || fail(key));
+    }
+  }
+  if (config.navigationStrategy) {
+    route.navigationStrategy = registry.getNavigationStrategyName(config.navigationStrategy) || fail('navigationStrategy');
+  }
+  if (config.children) {
+    route.children = Array.isArray(config.children) ? routesToManifest(config.children, registry) : fail('children');
+  }
+
+  return route;
+};
+
+const copyDataKeys = (source: Record<string, any>, target: Record<string, any>): void => {
+  for (let key of dataKeys) {
+    if (source[key] !== undefined) {
+      target[key] = copyData(source[key]);
+    }
+  }
+};
+
+/**
+ * Copies the arrays and plain objects of an option, such as settings and view ports,
+ * so that a manifest and the route configs created from it or exported to it don't share them.
+ */
+const copyData = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(copyData);
+  }
+  if (!value || typeof value !== 'object' || [Object.prototype, null].indexOf(Object.getPrototypeOf(value)) === -1) {
+    return value;
+  }
+  let copy: Record<string, any> = {};
+  for (let key of Object.keys(value)) {
+    copy[key] = copyData(value[key]);
+  }
+  return copy;
+};
+
+/**
+ * Determines whether the view ports of a route config are the ones created for its module when it was registered.
+ */
+const isDefaultViewPorts = (config: RouteConfig): boolean => {
+  let viewPorts = config.viewPorts;
+  return !!viewPorts && Object.keys(viewPorts).length === 1 && !!viewPorts.default
+    && viewPorts.default.moduleId === config.moduleId && viewPorts.default.view === config.view;
+};
@@ -0,0 +1,107 @@
+import { RouteParamsSchema, RouteParamConstraint, RouteParamType } from './interfaces';
+
+/**
+ * Built-in route parameter types, usable by name in [[RouteConfig.params]]
+ */
+const builtInParamTypes: Record<string, RouteParamType> = {
+  int: {
+    parse: (value: string) => /^[-+]?\d+$/.test(value) ? parseInt(value, 10) : undefined
+  },
+  number: {
+    parse: (value: string) => value.trim() !== '' && isFinite(value as any) ? parseFloat(value) : undefined
+  },
+  boolean: {
+    parse: (value: string) => value === 'true' ? true : value === 'false' ? false : undefined
+  },
+  string: {
+    parse: (value: string) => value
+  }
+};
+
+/**
+ * Normalizes a parameter constraint to a parameter type
+ * @internal exported for unit testing
+ */
+export const getRouteParamType = (constraint: RouteParamConstraint): RouteParamType => {
+  if (typeof constraint === 'string') {
+    return builtInParamTypes[constraint];
+  }
+
+  if (constraint instanceof RegExp) {
+    return {
+      parse: (value: string) => {
+        // reset state of global / sticky expressions, as they can be shared between routes
+        constraint.lastIndex = 0;
+        return constraint.test(value) ? value : undefined;
+      }
+    };
+  }
+
+  if (typeof constraint === 'function') {
+    return { parse: constraint };
+  }
+
+  return constraint && typeof constraint.parse === 'function' ? constraint : undefined;
+};
+
+/**
+ * Validates and converts the values of recognized route params, according to a route params schema.
+ * Params that are not specified in the schema, or that are absent from the URL, are left untouched.
+ *
+ * @returns The converted params, or null when any of the values is rejected
+ * @internal exported for unit testing
+ */
+export const coerceRouteParams = (schema: RouteParamsSchema, params: Record<string, any>): Record<string, any> | null => {
+  if (!schema) {
+    return params;
+  }
+
+  let coerced = Object.assign({}, params);
+  for (let name in schema) {
+    let value = coerced[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    let paramType = getRouteParamType(schema[name]);
+    let parsed: any;
+    try {
+      parsed = paramType.parse(value);
+    } catch (e) {
+      parsed = undefined;
+    }
+
+    if (parsed === undefined || (typeof parsed === 'number' && isNaN(parsed))) {
+      return null;
+    }
+
+    coerced[name] = parsed;
+  }
+
+  return coerced;
+};
+
+/**
+ * Converts typed param values back to their URL representation, according to a route params schema.
+ * @internal exported for unit testing
+ */
+export const serializeRouteParams = (schema: RouteParamsSchema, params: Record<string, any>): Record<string, any> => {
+  if (!schema || !params) {
+    return params;
+  }
+
+  let serialized = Object.assign({}, params);
+  for (let name in schema) {
+    let value = serialized[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    let paramType = getRouteParamType(schema[name]);
+    serialized[name] = paramType && typeof paramType.serialize === 'function'
+      ? paramType.serialize(value)
+      : String(value);
+  }
+
+  return serialized;
+};
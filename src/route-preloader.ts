@@ -0,0 +1,169 @@
+import * as LogManager from 'aurelia-logging';
+import { RouteConfig, PreloadingStrategy } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+import { RouteLoader } from './route-loader';
+import { Router, getRootRouter } from './router';
+
+const logger = LogManager.getLogger('route-preloader');
+
+/**
+ * What caused a route to be considered for preloading
+ * @internal
+ */
+export const enum PreloadTrigger {
+  Idle = 'idle',
+  Hover = 'hover'
+}
+
+/**
+ * Preloads the modules of routes through the [[RouteLoader]], ahead of the navigations to them.
+ * Each module is preloaded once, and navigations to a route wait for the preloading of its modules.
+ */
+export class RoutePreloader {
+
+  /**@internal */
+  static inject() { return [RouteLoader]; }
+
+  routeLoader: RouteLoader;
+
+  /**
+   * The preloading of each module, by module id
+   * @internal
+   */
+  _preloaded: Map<string, Promise<any>> = new Map();
+
+  /**
+   * The components the preloading of modules resolved to, by module id, until a navigation uses them
+   * @internal
+   */
+  _preloadedComponents: Map<string, any> = new Map();
+
+  constructor(routeLoader: RouteLoader) {
+    this.routeLoader = routeLoader;
+  }
+
+  /**
+   * Preloads the modules of the view ports of a route config.
+   * A module that fails to preload is retried the next time it is preloaded.
+   *
+   * @param config The route config to preload.
+   */
+  preload(config: RouteConfig): Promise<void> {
+    let routeLoader = this.routeLoader;
+    let viewPorts = config.viewPorts;
+    let preloads: Promise<any>[] = [];
+
+    if (!routeLoader.preload) {
+      return Promise.resolve();
+    }
+
+    for (let viewPortName in viewPorts) {
+      let viewPortConfig = viewPorts[viewPortName];
+      let moduleId = viewPortConfig && viewPortConfig.moduleId;
+      if (typeof moduleId !== 'string') {
+        continue;
+      }
+
+      let preloaded = this._preloaded.get(moduleId);
+      if (!preloaded) {
+        preloaded = Promise.resolve()
+          .then(() => routeLoader.preload(viewPortConfig))
+          .then(component => {
+            if (component) {
+              this._preloadedComponents.set(moduleId, component);
+            }
+          })
+          .catch(error => {
+            this._preloaded.delete(moduleId);
+            logger.warn(`Preloading of "${moduleId}" failed.`, error);
+          });
+        this._preloaded.set(moduleId, preloaded);
+      }
+      preloads.push(preloaded);
+    }
+
+    return Promise.all(preloads).then(() => undefined);
+  }
+
+  /**
+   * Waits for the preloading of a module, if it was preloaded.
+   *
+   * @param moduleId The id of the module.
+   * @returns The component the preloading resolved to, if any. It is only returned once,
+   * to the navigation using it, and later navigations load the module again.
+   */
+  whenPreloaded(moduleId: string): Promise<any> {
+    return Promise.resolve(this._preloaded.get(moduleId)).then(() => {
+      let component = this._preloadedComponents.get(moduleId);
+      this._preloadedComponents.delete(moduleId);
+      return component;
+    });
+  }
+
+  /**
+   * Forgets the preloaded modules, so they are preloaded again.
+   */
+  clear(): void {
+    this._preloaded.clear();
+    this._preloadedComponents.clear();
+  }
+}
+
+/**
+ * Preloads a route of a router, when the preloading strategy of the root router accepts it for the trigger
+ * @internal exported for unit testing
+ */
+export const preloadRoute = (router: Router, config: RouteConfig, trigger: PreloadTrigger): Promise<void> => {
+  let strategy: PreloadingStrategy = getRootRouter(router).options.preloadingStrategy;
+  if (!config || !shouldPreload(strategy, config, trigger)) {
+    return Promise.resolve();
+  }
+  return router.container.get(RoutePreloader).preload(config);
+};
+
+/**
+ * Preloads the routes of the routers of a completed navigation, and the routes declared as their children,
+ * once the browser is idle
+ * @internal exported for unit testing
+ */
+export const schedulePreloading = (router: Router, instruction: NavigationInstruction): void => {
+  let strategy: PreloadingStrategy = router.options.preloadingStrategy;
+  if (!strategy || strategy === 'none' || strategy === 'on-nav-model-hover') {
+    return;
+  }
+
+  let routers = instruction.getAllInstructions().map(x => x.router);
+  whenIdle(() => {
+    let preloadedRouters = new Set<Router>();
+    while (routers.length) {
+      let current = routers.shift();
+      if (!current || preloadedRouters.has(current)) {
+        continue;
+      }
+      preloadedRouters.add(current);
+
+      for (let entry of current._recognizerEntries) {
+        preloadRoute(current, entry.config, PreloadTrigger.Idle);
+        if (entry.childRouter) {
+          routers.push(entry.childRouter);
+        }
+      }
+    }
+  });
+};
+
+const shouldPreload = (strategy: PreloadingStrategy, config: RouteConfig, trigger: PreloadTrigger): boolean => {
+  if (typeof strategy === 'function') {
+    return !!strategy(config);
+  }
+  return strategy === 'all-after-idle' || (strategy === 'on-nav-model-hover' && trigger === PreloadTrigger.Hover);
+};
+
+const whenIdle = (callback: () => void): void => {
+  let requestIdleCallback = typeof window !== 'undefined' ? (window as any).requestIdleCallback : undefined;
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback.call(window, callback);
+  } else {
+    setTimeout(callback);
+  }
+};
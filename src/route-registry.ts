@@ -0,0 +1,92 @@
+import { Guard } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+
+/**
+ * A navigation strategy of a route config.
+ */
+export type NavigationStrategy = (instruction: NavigationInstruction) => Promise<void> | void;
+
+/**
+ * Names the guards and navigation strategies referenced by [[RouteManifest]]s,
+ * to look them up when mapping a manifest and to name them when exporting routes to a manifest.
+ */
+export class RouteRegistry {
+
+  /**@internal */
+  _guards: Map<string, Guard> = new Map();
+  /**@internal */
+  _navigationStrategies: Map<string, NavigationStrategy> = new Map();
+
+  /**
+   * Registers a guard, or a class of guard to resolve from the router's container.
+   *
+   * @param name The name of the guard in manifests.
+   * @param guard The guard.
+   * @chainable
+   */
+  registerGuard(name: string, guard: Guard): RouteRegistry {
+    this._guards.set(name, guard);
+    return this;
+  }
+
+  /**
+   * Registers a navigation strategy.
+   *
+   * @param name The name of the navigation strategy in manifests.
+   * @param navigationStrategy The navigation strategy.
+   * @chainable
+   */
+  registerNavigationStrategy(name: string, navigationStrategy: NavigationStrategy): RouteRegistry {
+    this._navigationStrategies.set(name, navigationStrategy);
+    return this;
+  }
+
+  /**
+   * Gets a registered guard.
+   *
+   * @param name The name of the guard.
+   */
+  getGuard(name: string): Guard {
+    let guard = this._guards.get(name);
+    if (!guard) {
+      throw new Error(`Unknown guard "${name}". Register it with RouteRegistry.registerGuard.`);
+    }
+    return guard;
+  }
+
+  /**
+   * Gets a registered navigation strategy.
+   *
+   * @param name The name of the navigation strategy.
+   */
+  getNavigationStrategy(name: string): NavigationStrategy {
+    let navigationStrategy = this._navigationStrategies.get(name);
+    if (!navigationStrategy) {
+      throw new Error(`Unknown navigation strategy "${name}". Register it with RouteRegistry.registerNavigationStrategy.`);
+    }
+    return navigationStrategy;
+  }
+
+  /**
+   * Gets the name a guard is registered with, if any.
+   */
+  getGuardName(guard: Guard): string | undefined {
+    return findName(this._guards, guard);
+  }
+
+  /**
+   * Gets the name a navigation strategy is registered with, if any.
+   */
+  getNavigationStrategyName(navigationStrategy: NavigationStrategy): string | undefined {
+    return findName(this._navigationStrategies, navigationStrategy);
+  }
+}
+
+const findName = <T>(registrations: Map<string, T>, value: T): string | undefined => {
+  for (let [name, registered] of Array.from(registrations)) {
+    if (registered === value) {
+      return name;
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,134 @@
+import { ActiveRouteState, RouteConfig, RouteTreeNode, ViewPortInstruction } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+import { Router } from './router';
+
+/**
+ * Builds the route tree of a router.
+ * @internal
+ */
+export const buildRouteTree = (router: Router): RouteTreeNode[] => {
+  let loadedChildRouters = findLoadedChildRouters(router.currentInstruction);
+  let getLoadedChildRouter = (entry: typeof router._recognizerEntries[0]) => loadedChildRouters.get(entry.config)
+    || (entry.childRoute ? loadedChildRouters.get(entry.childRoute.handler as RouteConfig) : undefined);
+
+  let nodes: RouteTreeNode[] = [];
+  let navModelNodes = new Map<any, RouteTreeNode>();
+
+  for (let entry of router._recognizerEntries) {
+    let config = entry.config;
+    // the configs registered for each pattern of a route share its nav model, and are described as one node
+    let sharedNode = navModelNodes.get(config.navModel);
+    if (sharedNode) {
+      sharedNode.route = ([] as string[]).concat(sharedNode.route, config.route as string);
+      let loadedChildRouter = getLoadedChildRouter(entry);
+      if (loadedChildRouter) {
+        sharedNode.children = buildRouteTree(loadedChildRouter);
+      }
+      continue;
+    }
+
+    // redirect routes are registered with empty view ports
+    let viewPorts = config.redirect ? {} : getViewPortModuleIds(config.viewPorts);
+    let node: RouteTreeNode = {
+      name: config.name,
+      route: config.route as string,
+      viewPorts,
+      moduleIds: Object.keys(viewPorts)
+        .map(viewPortName => viewPorts[viewPortName])
+        .filter((moduleId, index, all) => !!moduleId && all.indexOf(moduleId) === index),
+      nav: router.navigation.indexOf(config.navModel) !== -1,
+      children: []
+    };
+
+    if (node.nav && config.navModel.href) {
+      node.href = config.navModel.href;
+    }
+    if (typeof config.redirect === 'string') {
+      node.redirect = config.redirect;
+    }
+
+    // the child router configured by the loaded view model also has the declared child routes
+    let childRouter = getLoadedChildRouter(entry) || entry.childRouter;
+    if (childRouter) {
+      node.children = buildRouteTree(childRouter);
+    }
+
+    if (config.navModel) {
+      navModelNodes.set(config.navModel, node);
+    }
+    nodes.push(node);
+  }
+
+  return nodes;
+};
+
+/**
+ * Describes the routes of an instruction and of its child instructions.
+ * @internal
+ */
+export const describeInstructions = (instruction: NavigationInstruction | null): ActiveRouteState[] => {
+  if (!instruction) {
+    return [];
+  }
+
+  return instruction.getAllInstructions().map(current => {
+    let config = current.config || {} as RouteConfig;
+    let route = typeof config.route === 'string' ? config.route : '';
+    let viewPortInstructions = current.viewPortInstructions as Record<string, ViewPortInstruction>;
+    let viewPorts: Record<string, string> = {};
+    for (let viewPortName in viewPortInstructions) {
+      viewPorts[viewPortName] = viewPortInstructions[viewPortName].moduleId;
+    }
+    // the remaining path of a route with a child router is matched by the child instruction
+    let params = Object.assign({}, current.params);
+    if (config.hasChildRouter) {
+      delete params.childRoute;
+    }
+
+    return {
+      name: config.name,
+      route: config.hasChildRouter ? route.replace(/\/?\*childRoute$/, '') : route,
+      fragment: current.fragment,
+      params,
+      queryParams: Object.assign({}, current.queryParams),
+      viewPorts,
+      depth: getDepth(current, instruction)
+    };
+  });
+};
+
+/**
+ * Finds the child routers of the view models loaded by an instruction, keyed by the route config it was recognized with.
+ */
+const findLoadedChildRouters = (instruction: NavigationInstruction | null): Map<RouteConfig, Router> => {
+  let childRouters = new Map<RouteConfig, Router>();
+  if (!instruction || !instruction.config) {
+    return childRouters;
+  }
+
+  let viewPortInstructions = instruction.viewPortInstructions as Record<string, ViewPortInstruction>;
+  for (let viewPortName in viewPortInstructions) {
+    let childRouter = viewPortInstructions[viewPortName].childRouter;
+    if (childRouter) {
+      childRouters.set(instruction.config, childRouter);
+    }
+  }
+  return childRouters;
+};
+
+const getViewPortModuleIds = (viewPortConfigs: Record<string, RouteConfig> | undefined): Record<string, string | null> => {
+  let moduleIds: Record<string, string | null> = {};
+  for (let viewPortName in viewPortConfigs) {
+    moduleIds[viewPortName] = viewPortConfigs[viewPortName].moduleId || null;
+  }
+  return moduleIds;
+};
+
+const getDepth = (instruction: NavigationInstruction, root: NavigationInstruction): number => {
+  let depth = 0;
+  while (instruction !== root && instruction.parentInstruction) {
+    instruction = instruction.parentInstruction;
+    ++depth;
+  }
+  return depth;
+};
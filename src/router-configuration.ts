@@ -1,8 +1,26 @@
-import { RouteConfig, PipelineStep, RouteConfigSpecifier } from './interfaces';
+import {
+  RouteConfig,
+  PipelineStep,
+  RouteConfigSpecifier,
+  PipelineStepOptions,
+  PipelineSlotOptions,
+  PreloadingStrategy,
+  QuerySerializer,
+  QueryStringCodec,
+  RouteScrollBehavior,
+  RouteManifest
+} from './interfaces';
 import { _ensureArrayWithSingleRoutePerConfig } from './util';
-import { Router } from './router';
+import { Router, findRouterOption } from './router';
 import { NavigationInstruction } from './navigation-instruction';
 import { PipelineSlotName } from './pipeline-slot-name';
+import { DeactivatePreviousStep } from './step-activation';
+import { CommitChangesStep } from './step-commit-changes';
+import { SaveScrollPositionStep, RestoreScrollPositionStep } from './step-scroll';
+import { reportRouteDiagnostics } from './route-diagnostics';
+import { validateRoutes, reportRouteConfigProblems } from './route-config-validator';
+import { RouteRegistry } from './route-registry';
+import { routesFromManifest } from './route-manifest';
 
 /**
  * Class used to configure a [[Router]] instance.
@@ -18,8 +36,15 @@ export class RouterConfiguration {
     pushState?: boolean;
     hashChange?: boolean;
     silent?: boolean;
+    preloadingStrategy?: PreloadingStrategy;
+    querySerializer?: QuerySerializer;
+    queryStringCodec?: QueryStringCodec;
+    scrollBehavior?: boolean | RouteScrollBehavior;
+    strictRoutes?: boolean;
+    customRouteKeys?: string[];
   } = {};
-  pipelineSteps: Array<{ name: string, step: Function | PipelineStep }> = [];
+  pipelineSteps: Array<{ name: string, step: Function | PipelineStep, options?: PipelineStepOptions }> = [];
+  pipelineSlots: Array<{ name: string, options?: PipelineSlotOptions }> = [];
   title: string;
   titleSeparator: string;
   unknownRouteConfig: RouteConfigSpecifier;
@@ -27,19 +52,41 @@ export class RouterConfiguration {
 
   /**@internal */
   _fallbackRoute: string;
+  /**
+   * The route configs mapped by this configuration, before they are registered with a router
+   * @internal
+   */
+  _routes: RouteConfig[] = [];
+
+  /**
+   * Adds a named slot to the [[Router]]'s navigation pipeline, which steps can be added to with [[addPipelineStep]].
+   *
+   * @param name The name of the pipeline slot.
+   * @param options The position of the slot, after or before another slot or a built-in step.
+   * @chainable
+   */
+  addPipelineSlot(name: string, options?: PipelineSlotOptions): RouterConfiguration {
+    if (!name) {
+      throw new Error('Pipeline slot name cannot be empty.');
+    }
+    this.pipelineSlots.push({ name, options });
+    return this;
+  }
 
   /**
-   * Adds a step to be run during the [[Router]]'s navigation pipeline.
+   * Adds a step to be run during the [[Router]]'s navigation pipeline. Steps added by a child router
+   * only run when a navigation includes a route of that router, until the router is torn down.
    *
    * @param name The name of the pipeline slot to insert the step into.
    * @param step The pipeline step.
+   * @param options Options controlling the position of the step in the pipeline.
    * @chainable
    */
-  addPipelineStep(name: string, step: Function | PipelineStep): RouterConfiguration {
+  addPipelineStep(name: string, step: Function | PipelineStep, options?: PipelineStepOptions): RouterConfiguration {
     if (step === null || step === undefined) {
       throw new Error('Pipeline step cannot be null or undefined.');
     }
-    this.pipelineSteps.push({ name, step });
+    this.pipelineSteps.push({ name, step, options });
     return this;
   }
 
@@ -47,40 +94,44 @@ export class RouterConfiguration {
    * Adds a step to be run during the [[Router]]'s authorize pipeline slot.
    *
    * @param step The pipeline step.
+   * @param options Options controlling the position of the step in the pipeline.
    * @chainable
    */
-  addAuthorizeStep(step: Function | PipelineStep): RouterConfiguration {
-    return this.addPipelineStep(PipelineSlotName.Authorize, step);
+  addAuthorizeStep(step: Function | PipelineStep, options?: PipelineStepOptions): RouterConfiguration {
+    return this.addPipelineStep(PipelineSlotName.Authorize, step, options);
   }
 
   /**
    * Adds a step to be run during the [[Router]]'s preActivate pipeline slot.
    *
    * @param step The pipeline step.
+   * @param options Options controlling the position of the step in the pipeline.
    * @chainable
    */
-  addPreActivateStep(step: Function | PipelineStep): RouterConfiguration {
-    return this.addPipelineStep(PipelineSlotName.PreActivate, step);
+  addPreActivateStep(step: Function | PipelineStep, options?: PipelineStepOptions): RouterConfiguration {
+    return this.addPipelineStep(PipelineSlotName.PreActivate, step, options);
   }
 
   /**
    * Adds a step to be run during the [[Router]]'s preRender pipeline slot.
    *
    * @param step The pipeline step.
+   * @param options Options controlling the position of the step in the pipeline.
    * @chainable
    */
-  addPreRenderStep(step: Function | PipelineStep): RouterConfiguration {
-    return this.addPipelineStep(PipelineSlotName.PreRender, step);
+  addPreRenderStep(step: Function | PipelineStep, options?: PipelineStepOptions): RouterConfiguration {
+    return this.addPipelineStep(PipelineSlotName.PreRender, step, options);
   }
 
   /**
    * Adds a step to be run during the [[Router]]'s postRender pipeline slot.
    *
    * @param step The pipeline step.
+   * @param options Options controlling the position of the step in the pipeline.
    * @chainable
    */
-  addPostRenderStep(step: Function | PipelineStep): RouterConfiguration {
-    return this.addPipelineStep(PipelineSlotName.PostRender, step);
+  addPostRenderStep(step: Function | PipelineStep, options?: PipelineStepOptions): RouterConfiguration {
+    return this.addPipelineStep(PipelineSlotName.PostRender, step, options);
   }
 
   /**
@@ -109,6 +160,26 @@ export class RouterConfiguration {
     return this.mapRoute(route);
   }
 
+  /**
+   * Maps the routes described by a manifest, such as one loaded from JSON. The guards and navigation strategies
+   * of the routes are looked up by name in the registry.
+   *
+   * @param manifest The [[RouteManifest]], or its JSON.
+   * @param registry The registry of the guards and navigation strategies referenced by the manifest.
+   * @chainable
+   */
+  mapManifest(manifest: RouteManifest | string, registry: RouteRegistry = new RouteRegistry()): RouterConfiguration {
+    if (typeof manifest === 'string') {
+      manifest = JSON.parse(manifest) as RouteManifest;
+    }
+
+    if (manifest.title) {
+      this.title = manifest.title;
+    }
+
+    return this.map(routesFromManifest(manifest.routes, registry));
+  }
+
   /**
    * Configures defaults to use for any view ports.
    *
@@ -128,6 +199,7 @@ export class RouterConfiguration {
    * @chainable
    */
   mapRoute(config: RouteConfig): RouterConfiguration {
+    this._routes.push(config);
     this.instructions.push(router => {
       let routeConfigs = _ensureArrayWithSingleRoutePerConfig(config);
 
@@ -164,9 +236,22 @@ export class RouterConfiguration {
    * @param router The [[Router]] to apply the configuration to.
    */
   exportToRouter(router: Router): void {
+    if (this._routes.length) {
+      // declared child routes are validated when they are registered with their own router
+      let strict = this.options.strictRoutes || !!findRouterOption(router, 'strictRoutes');
+      let customKeys = this.options.customRouteKeys || findRouterOption(router, 'customRouteKeys');
+      reportRouteConfigProblems(validateRoutes(this._routes, false, customKeys), strict);
+    }
+
+    // the routes of the configuration are diagnosed together below, rather than notified one by one
     let instructions = this.instructions;
-    for (let i = 0, ii = instructions.length; i < ii; ++i) {
-      instructions[i](router);
+    router._routesUpdateDepth++;
+    try {
+      for (let i = 0, ii = instructions.length; i < ii; ++i) {
+        instructions[i](router);
+      }
+    } finally {
+      router._routesUpdateDepth--;
     }
 
     let { title, titleSeparator, unknownRouteConfig, _fallbackRoute, viewPortDefaults } = this;
@@ -193,18 +278,43 @@ export class RouterConfiguration {
 
     Object.assign(router.options, this.options);
 
-    let pipelineSteps = this.pipelineSteps;
-    let pipelineStepCount = pipelineSteps.length;
-    if (pipelineStepCount) {
+    let pipelineSlots = this.pipelineSlots;
+    let pipelineSlotCount = pipelineSlots.length;
+    if (pipelineSlotCount) {
       if (!router.isRoot) {
-        throw new Error('Pipeline steps can only be added to the root router');
+        throw new Error('Pipeline slots can only be added to the root router');
       }
 
+      let pipelineProvider = router.pipelineProvider;
+      for (let i = 0, ii = pipelineSlotCount; i < ii; ++i) {
+        let { name, options } = pipelineSlots[i];
+        pipelineProvider.addSlot(name, options);
+      }
+    }
+
+    if (this.options.scrollBehavior && router.isRoot) {
+      let pipelineProvider = router.pipelineProvider;
+      pipelineProvider.addStep(PipelineSlotName.PreActivate, SaveScrollPositionStep, { before: DeactivatePreviousStep });
+      pipelineProvider.addStep(PipelineSlotName.PostRender, RestoreScrollPositionStep, { after: CommitChangesStep });
+    }
+
+    let pipelineSteps = this.pipelineSteps;
+    let pipelineStepCount = pipelineSteps.length;
+    if (pipelineStepCount) {
       let pipelineProvider = router.pipelineProvider;
       for (let i = 0, ii = pipelineStepCount; i < ii; ++i) {
-        let { name, step } = pipelineSteps[i];
-        pipelineProvider.addStep(name, step);
+        let { name, step, options } = pipelineSteps[i];
+        if (router.isRoot) {
+          pipelineProvider.addStep(name, step, options);
+        } else {
+          // steps of child routers only apply to navigations involving their routes
+          router._addPipelineStep(name, step, options);
+        }
       }
     }
+
+    if (instructions.length) {
+      reportRouteDiagnostics(router);
+    }
   }
 }
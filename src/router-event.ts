@@ -1,13 +1,22 @@
 /**
  * A list of known router events used by the Aurelia router
- * to signal the pipeline has come to a certain state
+ * to signal the pipeline has come to a certain state,
+ * or the routes of a router have changed
  */
 // const enum is preserved in tsconfig
 export const enum RouterEvent {
   Processing = 'router:navigation:processing',
+  PlanBuilt = 'router:navigation:plan:built',
+  RouteLoaded = 'router:navigation:route:loaded',
+  GuardsChecked = 'router:navigation:guards:checked',
+  Deactivated = 'router:navigation:deactivated',
+  Activated = 'router:navigation:activated',
+  Committed = 'router:navigation:committed',
   Error = 'router:navigation:error',
   Canceled = 'router:navigation:canceled',
+  Superseded = 'router:navigation:superseded',
   Complete = 'router:navigation:complete',
   Success = 'router:navigation:success',
-  ChildComplete = 'router:navigation:child:complete'
+  ChildComplete = 'router:navigation:child:complete',
+  RoutesChanged = 'router:routes:changed'
 }
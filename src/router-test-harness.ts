@@ -0,0 +1,205 @@
+import { Container } from 'aurelia-dependency-injection';
+import { EventAggregator } from 'aurelia-event-aggregator';
+import { History } from 'aurelia-history';
+import { ConfiguresRouter, PipelineResult, RouteConfig, ViewPort, ViewPortInstruction } from './interfaces';
+// the testing entry point is built against the public API, so that it shares the classes of the main entry point
+import { AppRouter, MemoryHistory, NavigationInstruction, PipelineProvider, RouteLoader, Router } from './aurelia-router';
+
+/**
+ * The lifecycle hooks of view models recorded by the [[RouterTestHarness]]
+ */
+const lifecycleHooks = ['canDeactivate', 'canActivate', 'deactivate', 'activate'];
+
+/**
+ * Runs a router without a DOM: the routes are loaded from a map of view models, rendered in view ports
+ * recording the calls made by the router, and navigated to in an in-memory history.
+ *
+ * ```typescript
+ * let harness = new RouterTestHarness({ './home': Home, './users': Users });
+ * await harness.configure(config => config.map([{ route: '', moduleId: './home' }, { route: 'users', moduleId: './users' }]));
+ * await harness.navigate('users');
+ * harness.assertCallOrder(['canDeactivate ./home', 'canActivate ./users', 'deactivate ./home', 'activate ./users']);
+ * ```
+ */
+export class RouterTestHarness {
+
+  container: Container;
+  history: MemoryHistory;
+  routeLoader: RouteLoader;
+  events: EventAggregator;
+  router: AppRouter;
+
+  /**
+   * The calls made since the start of the last navigation, in order: the lifecycle hooks of the view models,
+   * such as `activate ./users`, and the calls to the view ports, such as `process default ./users`.
+   */
+  calls: string[] = [];
+
+  /**
+   * @param viewModels The view models of the routes by moduleId: classes, invoked for each load, or instances.
+   */
+  constructor(viewModels: Record<string, any> = {}) {
+    let container = this.container = new Container();
+    this.history = new MemoryHistory();
+    this.routeLoader = new ViewModelMapRouteLoader(this, viewModels);
+    this.events = new EventAggregator();
+    container.registerInstance(History, this.history);
+    container.registerInstance(RouteLoader, this.routeLoader);
+    container.registerInstance(EventAggregator, this.events);
+
+    this.router = new AppRouter(container, this.history, new PipelineProvider(container), this.events);
+    container.registerInstance(Router, this.router);
+    container.registerInstance(AppRouter, this.router);
+  }
+
+  /**
+   * Configures and activates the router, as the root view model would when its view ports are attached.
+   *
+   * @param callback The configureRouter callback of the root view model.
+   */
+  configure(callback: ConfiguresRouter['configureRouter']): Promise<void> {
+    let rootViewModel: ConfiguresRouter = {
+      // the harness navigates explicitly, the history doesn't load its initial URL on activation
+      configureRouter: (config, router) => Promise.resolve(callback(config, router)).then(() => { config.options.silent = true; })
+    };
+    this.container.viewModel = rootViewModel;
+    return this.router
+      .registerViewPort(new RecordingViewPort(this, this.container, 'default'), 'default')
+      .then(() => registerViewPorts(this, this.router, this.container));
+  }
+
+  /**
+   * Navigates to a URL, and resolves to the result of the navigation once it's completed,
+   * or to undefined when the URL doesn't match any route.
+   *
+   * @param url The URL fragment to navigate to.
+   */
+  navigate(url: string): Promise<PipelineResult> {
+    this.calls.length = 0;
+    this.history.navigate(url, { trigger: false });
+    // the navigation resolves its instruction with the result of the pipeline
+    return this.router.loadUrl(url) as Promise<any>;
+  }
+
+  /**
+   * Asserts that calls were made in a given order since the start of the last navigation.
+   * Other calls may have been made before, between and after them.
+   *
+   * @param expected The calls, formatted as in [[RouterTestHarness.calls]].
+   * @throws When a call wasn't made, or not in the given order.
+   */
+  assertCallOrder(expected: string[]): void {
+    let index = 0;
+    for (let call of this.calls) {
+      if (call === expected[index]) {
+        index++;
+      }
+    }
+    if (index < expected.length) {
+      throw new Error(`Expected the calls ${JSON.stringify(expected)} in this order, `
+        + `but "${expected[index]}" was missing from ${JSON.stringify(this.calls)}.`);
+    }
+  }
+}
+
+/**
+ * A route loader creating the view models of the routes from a map
+ */
+class ViewModelMapRouteLoader extends RouteLoader {
+
+  harness: RouterTestHarness;
+  viewModels: Record<string, any>;
+
+  constructor(harness: RouterTestHarness, viewModels: Record<string, any>) {
+    super();
+    this.harness = harness;
+    this.viewModels = viewModels;
+  }
+
+  loadRoute(router: Router, config: RouteConfig, navigationInstruction: NavigationInstruction): Promise<any> {
+    let moduleId = config.moduleId;
+    if (!(moduleId in this.viewModels)) {
+      return Promise.reject(new Error(`No view model registered for module "${moduleId}".`));
+    }
+
+    let childContainer = router.container.createChild();
+    let viewModelOrType = this.viewModels[moduleId];
+    let viewModel = recordHooks(
+      this.harness,
+      typeof viewModelOrType === 'function' ? childContainer.invoke(viewModelOrType) : viewModelOrType,
+      moduleId
+    );
+
+    childContainer.viewModel = viewModel;
+    childContainer.getChildRouter = () => {
+      let childRouter = router.createChild(childContainer);
+      // the view ports of the child router are attached once it's configured by the view model
+      childRouter.ensureConfigured().then(() => registerViewPorts(this.harness, childRouter, childContainer));
+      return childRouter;
+    };
+
+    return Promise.resolve({ viewModel, childContainer });
+  }
+}
+
+/**
+ * Wraps a view model in a proxy recording the calls to its lifecycle hooks, leaving the view model itself untouched:
+ * the instances passed to the harness may be loaded again, or used by the tests.
+ */
+const recordHooks = (harness: RouterTestHarness, viewModel: any, moduleId: string): any => {
+  return new Proxy(viewModel, {
+    get(target, key, receiver) {
+      let value = Reflect.get(target, key, receiver);
+      if (typeof value !== 'function' || lifecycleHooks.indexOf(key as string) === -1) {
+        return value;
+      }
+      return function(this: any, ...args: any[]) {
+        harness.calls.push(`${key as string} ${moduleId}`);
+        return value.apply(this, args);
+      };
+    }
+  });
+};
+
+/**
+ * A view port recording the instructions it's asked to process and swap in
+ */
+class RecordingViewPort implements ViewPort {
+
+  harness: RouterTestHarness;
+  container: Container;
+  name: string;
+
+  constructor(harness: RouterTestHarness, container: Container, name: string) {
+    this.harness = harness;
+    this.container = container;
+    this.name = name;
+  }
+
+  process(viewPortInstruction: ViewPortInstruction, waitToSwap?: boolean): Promise<void> {
+    this.harness.calls.push(`process ${this.name} ${viewPortInstruction.moduleId}`);
+    if (!waitToSwap) {
+      this.swap(viewPortInstruction);
+    }
+    return Promise.resolve();
+  }
+
+  swap(viewPortInstruction: ViewPortInstruction): void {
+    this.harness.calls.push(`swap ${this.name} ${viewPortInstruction.moduleId}`);
+  }
+}
+
+/**
+ * Registers a recording view port with a router for each view port named by its routes.
+ */
+const registerViewPorts = (harness: RouterTestHarness, router: Router, container: Container): void => {
+  let names = ['default'];
+  for (let config of router.routes) {
+    names.push(...Object.keys(config.viewPorts || {}));
+  }
+  for (let name of names) {
+    if (!router.viewPorts[name]) {
+      router.registerViewPort(new RecordingViewPort(harness, container, name), name);
+    }
+  }
+};
@@ -1,7 +1,10 @@
 import { RouteRecognizer, RouteHandler, ConfigurableRoute, State, RecognizedRoute } from 'aurelia-route-recognizer';
+import * as LogManager from 'aurelia-logging';
 import { Container } from 'aurelia-dependency-injection';
 import { History, NavigationOptions } from 'aurelia-history';
-import { NavigationInstruction, NavigationInstructionInit } from './navigation-instruction';
+import { buildQueryString } from 'aurelia-path';
+import { NavigationInstruction, NavigationInstructionInit, removeRouterPipelineSteps, releaseCachedComponents } from './navigation-instruction';
+import { KeepAliveCache } from './keep-alive-cache';
 import { NavModel } from './nav-model';
 import { RouterConfiguration } from './router-configuration';
 import {
@@ -10,19 +13,42 @@ import {
   _createRootedPath,
   _resolveUrl
 } from './util';
-import { RouteConfig, RouteConfigSpecifier, ViewPortInstruction } from './interfaces';
+import {
+  RouteConfig,
+  RouteConfigSpecifier,
+  ViewPortInstruction,
+  PipelineStep,
+  PipelineStepOptions,
+  GenerateOptions,
+  AuxiliaryRouteTarget,
+  QuerySerializer,
+  QueryStringCodec,
+  RouteTreeNode,
+  ActiveRouteState
+} from './interfaces';
 import { PipelineProvider } from './pipeline-provider';
+import { RouterScopedStep } from './step-router-scoped';
+import { coerceRouteParams, serializeRouteParams } from './route-params';
+import { findRouteConfigErrors } from './route-config-validator';
+import { splitAuxiliaryRoutes, formatAuxiliaryRoutes, addAuxiliaryInstructions } from './auxiliary-routes';
+import { buildRouteTree, describeInstructions } from './route-tree';
+import { usesPushState } from './history-capabilities';
+import { reportRouteDiagnostics } from './route-diagnostics';
+import { RouterEvent } from './router-event';
+import { AppRouter } from './app-router';
 
 /**@internal */
 declare module 'aurelia-history' {
   interface History {
-    // This is wrong, as it's an implementation detail from aurelia-history-browser
-    // but we are poking it in here so probably will need to make it official in `aurelia-history`
     /**
-     * A private flag of Aurelia History implementation to indicate if push state should be used
+     * A private flag of the browser history of aurelia-history-browser to indicate if push state should be used.
+     * Query it with [[usesPushState]], which asks the histories implementing [[HistoryCapabilities]] instead.
      */
     _hasPushState: boolean;
 
+    /**
+     * The last location navigated to successfully, set by the [[AppRouter]] to restore it when a navigation fails.
+     */
     previousLocation: string;
   }
 }
@@ -48,6 +74,8 @@ declare module 'aurelia-route-recognizer' {
 
 type RouterConfigurationResolution = RouterConfiguration | ((cfg: RouterConfiguration) => void | RouterConfiguration | Promise<RouterConfiguration>);
 
+const logger = LogManager.getLogger('router');
+
 /**
  * The primary class responsible for handling routing and navigation.
  */
@@ -178,6 +206,26 @@ export class Router {
   _recognizer: RouteRecognizer;
   /**@internal */
   _childRecognizer: RouteRecognizer;
+  /**
+   * Routes registered with the recognizers, used to rebuild them
+   * @internal
+   */
+  _recognizerEntries: IRecognizerEntry[];
+  /**
+   * Routes grouped by priority, with recognizers of their own, built on demand
+   * @internal
+   */
+  _priorityGroups: IRecognizerGroup[];
+  /**
+   * The number of pending batches of route changes, which notify the changes once completed
+   * @internal
+   */
+  _routesUpdateDepth: number;
+  /**
+   * Steps contributed by this child router to the pipeline of the root router
+   * @internal
+   */
+  _pipelineSteps: { name: string, step: RouterScopedStep }[];
   /**@internal */
   _configuredPromise: Promise<any>;
   /**@internal */
@@ -229,6 +277,13 @@ export class Router {
     this._fallbackOrder = 100;
     this._recognizer = new RouteRecognizer();
     this._childRecognizer = new RouteRecognizer();
+    this._recognizerEntries = [];
+    this._priorityGroups = null;
+    this._routesUpdateDepth = 0;
+    if (this._pipelineSteps) {
+      this._removePipelineSteps();
+    }
+    this._pipelineSteps = [];
     this._configuredPromise = new Promise(resolve => {
       this._resolveConfiguredPromise = resolve;
     });
@@ -282,6 +337,10 @@ export class Router {
         }
 
         config.exportToRouter(this);
+        // child routes declared with a function are available once the router is configured
+        return Promise.all(this._recognizerEntries.map(entry => entry.childrenLoaded));
+      })
+      .then(() => {
         this.isConfigured = true;
         this._resolveConfiguredPromise();
       });
@@ -299,7 +358,7 @@ export class Router {
     }
 
     this.isExplicitNavigation = true;
-    return this.history.navigate(_resolveUrl(fragment, this.baseUrl, this.history._hasPushState), options);
+    return this.history.navigate(_resolveUrl(fragment, this.baseUrl, usesPushState(this.history)), options);
   }
 
   /**
@@ -308,10 +367,10 @@ export class Router {
    *
    * @param route The name of the route to use when generating the navigation location.
    * @param params The route parameters to be used when populating the route pattern.
-   * @param options The navigation options.
+   * @param options The navigation options, and the query params and anchor of the generated location.
    */
-  navigateToRoute(route: string, params?: any, options?: NavigationOptions): boolean {
-    let path = this.generate(route, params);
+  navigateToRoute(route: string, params?: any, options?: NavigationOptions & GenerateOptions): boolean {
+    let path = this.generate(route, params, options ? { query: options.query, fragment: options.fragment } : undefined);
     return this.navigate(path, options);
   }
 
@@ -335,28 +394,94 @@ export class Router {
     return childRouter;
   }
 
+  /**
+   * Adds a step to a slot of the root router's pipeline, only run when a navigation includes an instruction of this router.
+   * @internal
+   */
+  _addPipelineStep(name: string, step: Function | PipelineStep, options: PipelineStepOptions = {}): void {
+    let { before, after } = options;
+    let scopedStep = new RouterScopedStep(this, step);
+    // references to steps added by this router target the steps added to the root router's pipeline
+    for (let { step: addedStep } of this._pipelineSteps) {
+      if (addedStep.step === before) {
+        options = Object.assign({}, options, { before: addedStep });
+      } else if (addedStep.step === after) {
+        options = Object.assign({}, options, { after: addedStep });
+      }
+    }
+
+    getRootRouter(this).pipelineProvider.addStep(name, scopedStep, options);
+    this._pipelineSteps.push({ name, step: scopedStep });
+  }
+
+  /**
+   * Removes the steps contributed by this router from the root router's pipeline.
+   * @internal
+   */
+  _removePipelineSteps(): void {
+    let pipelineSteps = this._pipelineSteps;
+    if (!pipelineSteps.length) {
+      return;
+    }
+
+    let pipelineProvider = getRootRouter(this).pipelineProvider;
+    for (let { name, step } of pipelineSteps) {
+      pipelineProvider.removeStep(name, step);
+    }
+    this._pipelineSteps = [];
+  }
+
+  /**
+   * Gets the child routes declared by the `children` of a route config of this router, once they are resolved.
+   * @internal
+   */
+  _loadChildRoutes(config: RouteConfig): Promise<RouteConfig[] | undefined> {
+    let entry = this._recognizerEntries.find(x => x.config === config || !!x.childRoute && x.childRoute.handler === config);
+    return entry && entry.childrenLoaded
+      ? entry.childrenLoaded
+      : Promise.resolve(undefined);
+  }
+
   /**
    * Generates a URL fragment matching the specified route pattern.
    *
    * @param name The name of the route whose pattern should be used to generate the fragment.
    * @param params The route params to be used to populate the route pattern.
    * @param options If options.absolute = true, then absolute url will be generated; otherwise, it will be relative url.
+   * options.query and options.fragment add query params and an anchor to the url.
    * @returns {string} A string containing the generated URL fragment.
    */
-  generate(nameOrRoute: string | RouteConfig, params: any = {}, options: any = {}): string {
+  generate(nameOrRoute: string | RouteConfig, params: any = {}, options: GenerateOptions = {}): string {
     // A child recognizer generates routes for potential child routes. Any potential child route is added
     // to the childRoute property of params for the childRouter to recognize. When generating routes, we
     // use the childRecognizer when childRoute params are available to generate a child router enabled route.
     let recognizer = 'childRoute' in params ? this._childRecognizer : this._recognizer;
     let hasRoute = recognizer.hasRoute(nameOrRoute as string | RouteHandler);
     if (!hasRoute) {
+      let declaredChildRoute = typeof nameOrRoute === 'string' ? resolveDeclaredChildRoute(this, nameOrRoute, params) : null;
+      if (declaredChildRoute) {
+        return this.generate(declaredChildRoute.name, declaredChildRoute.params, options);
+      }
       if (this.parent) {
         return this.parent.generate(nameOrRoute, params, options);
       }
       throw new Error(`A route with name '${nameOrRoute}' could not be found. Check that \`name: '${nameOrRoute}'\` was specified in the route's config.`);
     }
-    let path = recognizer.generate(nameOrRoute as string | RouteHandler, params);
-    let rootedPath = _createRootedPath(path, this.baseUrl, this.history._hasPushState, options.absolute);
+    let handlerEntry = recognizer.handlersFor(nameOrRoute as string | RouteHandler)[0];
+    let handler = handlerEntry.handler as RouteConfig;
+    let { routeParams, queryParams } = splitRouteParams(handlerEntry.names, serializeRouteParams(handler.params, params));
+    let path = recognizer.generate(nameOrRoute as string | RouteHandler, routeParams);
+    if (options.auxiliary) {
+      path += formatAuxiliaryRoutes(generateAuxiliaryRoutes(this, options.auxiliary));
+    }
+    if (!handler.generationUsesHref) {
+      let queryString = getQuerySerializer(this)(Object.assign(queryParams, options.query));
+      path += queryString ? `?${queryString}` : '';
+    }
+    if (options.fragment) {
+      path += `#${encodeURI(options.fragment)}`;
+    }
+    let rootedPath = _createRootedPath(path, this.baseUrl, usesPushState(this.history), options.absolute);
     return options.absolute ? `${this.history.getAbsoluteRoot()}${rootedPath}` : rootedPath;
   }
 
@@ -391,7 +516,7 @@ export class Router {
     if (Array.isArray(config.route)) {
       let routeConfigs = _ensureArrayWithSingleRoutePerConfig(config);
       // the following is wrong. todo: fix this after TS refactoring release
-      routeConfigs.forEach(this.addRoute.bind(this));
+      this.updateRoutes(() => routeConfigs.forEach(this.addRoute.bind(this)));
       return;
     }
 
@@ -412,34 +537,13 @@ export class Router {
 
     this.routes.push(config);
 
-    let path = config.route;
-    if (path.charAt(0) === '/') {
-      path = path.substr(1);
-    }
-    let caseSensitive = config.caseSensitive === true;
-    let state: State = this._recognizer.add({
-      path: path,
-      handler: config as RouteHandler,
-      caseSensitive: caseSensitive
-    } as ConfigurableRoute);
-
-    if (path) {
-      let settings = config.settings;
-      delete config.settings;
-      let withChild = JSON.parse(JSON.stringify(config));
-      config.settings = settings;
-      withChild.route = `${path}/*childRoute`;
-      withChild.hasChildRouter = true;
-      this._childRecognizer.add({
-        path: withChild.route,
-        handler: withChild,
-        caseSensitive: caseSensitive
-      });
-
-      withChild.navModel = navModel;
-      withChild.settings = config.settings;
-      withChild.navigationStrategy = config.navigationStrategy;
+    let entry = createRecognizerEntry(config, navModel);
+    if (config.children) {
+      declareChildRoutes(this, entry);
     }
+    this._recognizerEntries.push(entry);
+    let state = addRecognizerEntry(this._recognizer, this._childRecognizer, entry);
+    this._priorityGroups = null;
 
     config.navModel = navModel;
 
@@ -464,6 +568,83 @@ export class Router {
       // and thus not all browsers (e.g. Mozilla versions dating back to at least 2003) respect this.
       navigation.sort((a, b) => <any>a.order - <any>b.order);
     }
+
+    notifyRoutesChanged(this);
+  }
+
+  /**
+   * Unregisters the routes with the specified name from the router, and removes them from the navigation model.
+   *
+   * @param name The name of the routes to remove.
+   * @returns Whether the router had routes with the name.
+   */
+  removeRoute(name: string): boolean {
+    let entries = this._recognizerEntries.filter(entry => entry.config.name === name);
+    if (!entries.length) {
+      return false;
+    }
+
+    let cache: KeepAliveCache = this.container.get(KeepAliveCache);
+    for (let entry of entries) {
+      let config = entry.config;
+      // the removed route stops running the steps of its declared child router, and releases its kept alive components
+      if (entry.childRouter) {
+        removeRouterPipelineSteps(entry.childRouter);
+      }
+      let handlers = entry.childRoute ? [config, entry.childRoute.handler as RouteConfig] : [config];
+      for (let handler of handlers) {
+        releaseCachedComponents(cache.clear(handler), this.currentInstruction);
+      }
+
+      this._recognizerEntries.splice(this._recognizerEntries.indexOf(entry), 1);
+      this.routes.splice(this.routes.indexOf(config), 1);
+      let navigationIndex = this.navigation.indexOf(config.navModel);
+      if (navigationIndex !== -1) {
+        this.navigation.splice(navigationIndex, 1);
+      }
+    }
+
+    rebuildRecognizers(this);
+    notifyRoutesChanged(this);
+    return true;
+  }
+
+  /**
+   * Replaces the routes with the specified name by a new route, which takes their position among the routes
+   * of the same specificity.
+   *
+   * @param name The name of the routes to replace.
+   * @param config The [[RouteConfig]] of the new route.
+   */
+  replaceRoute(name: string, config: RouteConfig): void {
+    let index = this.routes.findIndex(route => route.name === name);
+    if (index === -1) {
+      throw new Error(`A route with name '${name}' could not be found.`);
+    }
+
+    this.updateRoutes(() => {
+      this.removeRoute(name);
+      let routeCount = this.routes.length;
+      this.addRoute(config);
+      this.routes.splice(index, 0, ...this.routes.splice(routeCount));
+      this._recognizerEntries.splice(index, 0, ...this._recognizerEntries.splice(routeCount));
+      rebuildRecognizers(this);
+    });
+  }
+
+  /**
+   * Adds, removes and replaces routes of the router in a batch, notifying the changes once all of them are made.
+   *
+   * @param callback The function making the changes.
+   */
+  updateRoutes(callback: (router: Router) => void): void {
+    this._routesUpdateDepth++;
+    try {
+      callback(this);
+    } finally {
+      this._routesUpdateDepth--;
+      notifyRoutesChanged(this);
+    }
   }
 
   /**
@@ -472,7 +653,7 @@ export class Router {
    * @param name The name of the route to check.
    */
   hasRoute(name: string): boolean {
-    return !!(this._recognizer.hasRoute(name) || this.parent && this.parent.hasRoute(name));
+    return !!(hasDeclaredRoute(this, name) || this.parent && this.parent.hasRoute(name));
   }
 
   /**
@@ -484,6 +665,21 @@ export class Router {
     return this._recognizer.hasRoute(name);
   }
 
+  /**
+   * Gets the routes of this [[Router]], with the routes of the child routers declared with `children`
+   * or configured by the currently loaded view models.
+   */
+  getRouteTree(): RouteTreeNode[] {
+    return buildRouteTree(this);
+  }
+
+  /**
+   * Describes the currently active routes of this [[Router]] and of its child routers, from the outermost to the innermost.
+   */
+  describeActiveState(): ActiveRouteState[] {
+    return describeInstructions(this.currentInstruction);
+  }
+
   /**
    * Register a handler to use when the incoming URL fragment doesn't match any registered routes.
    *
@@ -530,9 +726,9 @@ export class Router {
     for (let i = 0, length = nav.length; i < length; i++) {
       let current = nav[i];
       if (!current.config.href) {
-        current.href = _createRootedPath(current.relativeHref, this.baseUrl, this.history._hasPushState);
+        current.href = _createRootedPath(current.relativeHref, this.baseUrl, usesPushState(this.history));
       } else {
-        current.href = _normalizeAbsolutePath(current.config.href, this.history._hasPushState);
+        current.href = _normalizeAbsolutePath(current.config.href, usesPushState(this.history));
       }
     }
   }
@@ -563,6 +759,16 @@ export class Router {
 
   /**@internal */
   _createNavigationInstruction(url: string = '', parentInstruction: NavigationInstruction = null): Promise<NavigationInstruction> {
+    // the anchor of the url does not take part in the navigation
+    let anchorIndex = url.indexOf('#');
+    if (anchorIndex !== -1) {
+      url = url.substr(0, anchorIndex);
+    }
+
+    // the auxiliary routes of the url are recognized apart from its primary route
+    let { url: primaryUrl, auxiliaryRoutes } = splitAuxiliaryRoutes(url);
+    url = primaryUrl;
+
     let fragment = url;
     let queryString = '';
 
@@ -572,14 +778,14 @@ export class Router {
       queryString = url.substr(queryIndex + 1);
     }
 
-    let urlRecognizationResults = this._recognizer.recognize(url) as IRouteRecognizationResults;
-    if (!urlRecognizationResults || !urlRecognizationResults.length) {
-      urlRecognizationResults = this._childRecognizer.recognize(url) as IRouteRecognizationResults;
-    }
+    let urlRecognizationResults = this._recognize(url);
+    let queryStringCodec: QueryStringCodec = findRouterOption(this, 'queryStringCodec');
+    let parsedQueryParams = queryStringCodec ? queryStringCodec.parse(queryString) : null;
 
     let instructionInit: NavigationInstructionInit = {
       fragment,
       queryString,
+      auxiliaryRoutes,
       config: null,
       parentInstruction,
       previousInstruction: this.currentInstruction,
@@ -595,7 +801,7 @@ export class Router {
       let first = urlRecognizationResults[0];
       let instruction = new NavigationInstruction(Object.assign({}, instructionInit, {
         params: first.params,
-        queryParams: first.queryParams || urlRecognizationResults.queryParams,
+        queryParams: parsedQueryParams || first.queryParams || urlRecognizationResults.queryParams,
         config: first.config || first.handler
       }));
 
@@ -609,7 +815,7 @@ export class Router {
     } else if (this.catchAllHandler) {
       let instruction = new NavigationInstruction(Object.assign({}, instructionInit, {
         params: { path: fragment },
-        queryParams: urlRecognizationResults ? urlRecognizationResults.queryParams : {},
+        queryParams: parsedQueryParams || (urlRecognizationResults ? urlRecognizationResults.queryParams : {}),
         config: null // config will be created by the catchAllHandler
       }));
 
@@ -622,7 +828,7 @@ export class Router {
 
         let instruction = new NavigationInstruction(Object.assign({}, instructionInit, {
           params: { path: fragment },
-          queryParams: urlRecognizationResults ? urlRecognizationResults.queryParams : {},
+          queryParams: parsedQueryParams || (urlRecognizationResults ? urlRecognizationResults.queryParams : {}),
           router: router,
           parentInstruction: newParentInstruction,
           parentCatchHandler: true,
@@ -633,6 +839,10 @@ export class Router {
       }
     }
 
+    if (result && Object.keys(auxiliaryRoutes).length) {
+      result = result.then(instruction => addAuxiliaryInstructions(this, instruction, auxiliaryRoutes));
+    }
+
     if (result && parentInstruction) {
       this.baseUrl = generateBaseUrl(this.parent, parentInstruction);
     }
@@ -640,6 +850,25 @@ export class Router {
     return result || Promise.reject(new Error(`Route not found: ${url}`));
   }
 
+  /**
+   * Recognizes a URL, skipping the routes whose parameter constraints reject it.
+   * Routes with a higher priority are matched first.
+   * @internal
+   */
+  _recognize(url: string): IRouteRecognizationResults {
+    let lastResults: IRouteRecognizationResults;
+
+    for (let routes of getPriorityGroups(this)) {
+      let results = recognizeRoutes(url, routes);
+      if (results && results.length) {
+        return results;
+      }
+      lastResults = lastResults || results;
+    }
+
+    return lastResults;
+  }
+
   /**@internal */
   _findParentInstructionFromRouter(router: Router, instruction: NavigationInstruction): NavigationInstruction {
     if (instruction.router === router) {
@@ -700,17 +929,9 @@ export const generateBaseUrl = (router: Router, instruction: NavigationInstructi
 
 /* @internal exported for unit testing */
 export const validateRouteConfig = (config: RouteConfig): void => {
-  if (typeof config !== 'object') {
-    throw new Error('Invalid Route Config');
-  }
-
-  if (typeof config.route !== 'string') {
-    let name = config.name || '(no name)';
-    throw new Error('Invalid Route Config for "' + name + '": You must specify a "route:" pattern.');
-  }
-
-  if (!('redirect' in config || config.moduleId || config.navigationStrategy || config.viewPorts)) {
-    throw new Error('Invalid Route Config for "' + config.route + '": You must specify a "moduleId:", "redirect:", "navigationStrategy:", or "viewPorts:".');
+  let errors = findRouteConfigErrors(config, false);
+  if (errors.length) {
+    throw new Error(errors[0].message);
   }
 };
 
@@ -735,6 +956,400 @@ export const evaluateNavigationStrategy = (
     });
 };
 
+/**
+ * Validates and converts the params of recognized routes against their route params schema, removing the rejected routes
+ * from the results.
+ *
+ * @param rejectedHandlers list that receives the handlers of the rejected routes
+ * @returns true if any of the recognized routes accepted its params
+ */
+const acceptRecognizedRoutes = (results: IRouteRecognizationResults, rejectedHandlers: RouteConfig[]): boolean => {
+  for (let i = results.length - 1; i > -1; --i) {
+    let result = results[i];
+    let handler = (result.config || result.handler) as RouteConfig;
+    if (typeof handler === 'function') {
+      continue;
+    }
+
+    let params = coerceRouteParams(handler.params, result.params);
+    if (params) {
+      result.params = params;
+    } else {
+      rejectedHandlers.push(handler);
+      results.splice(i, 1);
+    }
+  }
+
+  return results.length > 0;
+};
+
+/**
+ * Creates the recognizer routes of a route config: the route itself, and when it has a path,
+ * a route matching the path followed by potential child routes.
+ */
+const createRecognizerEntry = (config: RouteConfig, navModel: NavModel): IRecognizerEntry => {
+  let path = config.route as string;
+  if (path.charAt(0) === '/') {
+    path = path.substr(1);
+  }
+  let caseSensitive = config.caseSensitive === true;
+  let entry: IRecognizerEntry = {
+    config,
+    route: {
+      path: path,
+      handler: config as RouteHandler,
+      caseSensitive: caseSensitive
+    } as ConfigurableRoute,
+    childRoute: null
+  };
+
+  if (path) {
+    let settings = config.settings;
+    delete config.settings;
+    let withChild = JSON.parse(JSON.stringify(config));
+    config.settings = settings;
+    withChild.route = `${path}/*childRoute`;
+    withChild.hasChildRouter = true;
+    entry.childRoute = {
+      path: withChild.route,
+      handler: withChild,
+      caseSensitive: caseSensitive
+    };
+
+    withChild.navModel = navModel;
+    withChild.settings = config.settings;
+    withChild.navigationStrategy = config.navigationStrategy;
+    // constraints, resolvers and guards may contain regular expressions, functions and classes,
+    // which don't survive JSON serialization
+    withChild.params = config.params;
+    withChild.resolve = config.resolve;
+    withChild.canActivate = config.canActivate;
+    withChild.canDeactivate = config.canDeactivate;
+    withChild.children = config.children;
+  }
+
+  return entry;
+};
+
+const addRecognizerEntry = (recognizer: RouteRecognizer, childRecognizer: RouteRecognizer, entry: IRecognizerEntry): State => {
+  let state: State = recognizer.add(entry.route);
+  if (entry.childRoute) {
+    childRecognizer.add(entry.childRoute);
+  }
+  return state;
+};
+
+/**
+ * Recognizes a URL with a group of routes, skipping the routes whose parameter constraints reject it.
+ */
+const recognizeRoutes = (url: string, routes: IRecognizerGroup): IRouteRecognizationResults => {
+  let { recognizer, childRecognizer } = routes;
+  let rejectedHandlers: RouteConfig[] = [];
+  let lastResults: IRouteRecognizationResults;
+
+  for (;;) {
+    let results = recognizer.recognize(url) as IRouteRecognizationResults;
+    if (!results || !results.length) {
+      results = childRecognizer.recognize(url) as IRouteRecognizationResults;
+    }
+
+    if (!results) {
+      return lastResults;
+    }
+
+    if (!results.length || acceptRecognizedRoutes(results, rejectedHandlers)) {
+      return results;
+    }
+
+    // every recognized route rejected the URL, look for the next best match among the remaining routes
+    lastResults = results;
+    ({ recognizer, childRecognizer } = filterRecognizerGroup(routes, rejectedHandlers));
+  }
+};
+
+/**
+ * Gets the recognizers of a group of routes without the rejected routes,
+ * created once for each set of rejected routes until the routes change.
+ */
+const filterRecognizerGroup = (group: IRecognizerGroup, rejectedHandlers: RouteConfig[]): IRecognizerGroup => {
+  let isRejected = (entry: IRecognizerEntry) => rejectedHandlers.indexOf(entry.route.handler as RouteConfig) !== -1
+    || !!entry.childRoute && rejectedHandlers.indexOf(entry.childRoute.handler as RouteConfig) !== -1;
+  let key = group.entries
+    .map((entry, index) => isRejected(entry) ? index : -1)
+    .filter(index => index !== -1)
+    .join(',');
+
+  let filteredGroups = group.filteredGroups || (group.filteredGroups = {});
+  let filteredGroup = filteredGroups[key];
+  if (!filteredGroup) {
+    filteredGroup = filteredGroups[key] = {
+      recognizer: new RouteRecognizer(),
+      childRecognizer: new RouteRecognizer(),
+      entries: group.entries.filter(entry => !isRejected(entry))
+    };
+    filteredGroup.entries.forEach(entry => addRecognizerEntry(filteredGroup.recognizer, filteredGroup.childRecognizer, entry));
+  }
+  return filteredGroup;
+};
+
+/**
+ * Gets the routes of a router grouped by priority, from the highest to the lowest one.
+ */
+const getPriorityGroups = (router: Router): IRecognizerGroup[] => {
+  if (router._priorityGroups) {
+    return router._priorityGroups;
+  }
+
+  let entries = router._recognizerEntries;
+  let priorities = entries
+    .map(entry => entry.config.priority || 0)
+    .filter((priority, index, all) => all.indexOf(priority) === index)
+    .sort((a, b) => b - a);
+
+  if (priorities.length <= 1) {
+    return router._priorityGroups = [{ recognizer: router._recognizer, childRecognizer: router._childRecognizer, entries }];
+  }
+
+  return router._priorityGroups = priorities.map(priority => {
+    let group: IRecognizerGroup = {
+      recognizer: new RouteRecognizer(),
+      childRecognizer: new RouteRecognizer(),
+      entries: entries.filter(entry => (entry.config.priority || 0) === priority)
+    };
+    group.entries.forEach(entry => addRecognizerEntry(group.recognizer, group.childRecognizer, entry));
+    return group;
+  });
+};
+
+const rebuildRecognizers = (router: Router): void => {
+  router._recognizer = new RouteRecognizer();
+  router._childRecognizer = new RouteRecognizer();
+  router._priorityGroups = null;
+  for (let entry of router._recognizerEntries) {
+    addRecognizerEntry(router._recognizer, router._childRecognizer, entry);
+  }
+};
+
+/**
+ * Publishes the routes changed event of a router, unless the changes are part of a pending batch.
+ */
+const notifyRoutesChanged = (router: Router): void => {
+  if (router._routesUpdateDepth) {
+    return;
+  }
+
+  reportRouteDiagnostics(router);
+  let events = (getRootRouter(router) as AppRouter).events;
+  if (events) {
+    events.publish(RouterEvent.RoutesChanged, { router });
+  }
+};
+
+/**
+ * Registers the child routes declared by a route config with a child router of its own,
+ * used to generate URLs of child routes before the route is first activated
+ */
+const declareChildRoutes = (router: Router, entry: IRecognizerEntry): void => {
+  let children = entry.config.children;
+  let childRouter = entry.childRouter = router.createChild();
+  let register = (routes: RouteConfig[]): RouteConfig[] => {
+    new RouterConfiguration().map(copyRouteConfigs(routes)).exportToRouter(childRouter);
+    childRouter.isConfigured = true;
+    return routes;
+  };
+
+  if (typeof children !== 'function') {
+    entry.childrenLoaded = Promise.resolve(register(children));
+    return;
+  }
+
+  entry.childrenLoaded = Promise.resolve().then(children).then(register);
+  // nothing awaits the child routes of a route added after configuration until they're needed,
+  // the failure is logged here and still rejects the callers of _loadChildRoutes
+  entry.childrenLoaded.catch(error => {
+    logger.error(`Failed to load the child routes of route "${entry.config.route}".`, error);
+  });
+};
+
+/**
+ * Copy route configs before registering them with a router, as route configs are modified when they are registered,
+ * and declared child routes are registered with multiple routers
+ * @internal exported for use in other modules
+ */
+export const copyRouteConfigs = (routes: RouteConfig[]): RouteConfig[] => {
+  return routes.map(route => Object.assign({}, route));
+};
+
+/**
+ * Finds the child router declared by the parent route of a `parent/child` route name path
+ */
+const findDeclaredChildRouter = (router: Router, name: string): { parentName: string, childName: string, childRouter: Router } | null => {
+  let separatorIndex = name.indexOf('/');
+  if (separatorIndex === -1) {
+    return null;
+  }
+
+  let parentName = name.slice(0, separatorIndex);
+  let entry = router._recognizerEntries.find(x => x.config.name === parentName && !!x.childRouter && !!x.childRoute);
+  return entry
+    ? { parentName, childName: name.slice(separatorIndex + 1), childRouter: entry.childRouter }
+    : null;
+};
+
+/**
+ * Determines whether a router has a route with the specified name, or a declared child route with the specified name path
+ */
+const hasDeclaredRoute = (router: Router, name: string): boolean => {
+  if (router._recognizer.hasRoute(name)) {
+    return true;
+  }
+
+  let declared = findDeclaredChildRouter(router, name);
+  return !!declared && hasDeclaredRoute(declared.childRouter, declared.childName);
+};
+
+/**
+ * Resolves a `parent/child` route name path to the name of the parent route, and params with the path of the child route
+ * to generate a URL with the child recognizer
+ */
+const resolveDeclaredChildRoute = (
+  router: Router,
+  name: string,
+  params: Record<string, any>
+): { name: string, params: Record<string, any> } | null => {
+  let declared = findDeclaredChildRouter(router, name);
+  if (!declared) {
+    return null;
+  }
+
+  let { parentName, childName, childRouter } = declared;
+  let parentParamNames = router._childRecognizer.handlersFor(parentName)[0].names;
+  let parentParams: Record<string, any> = {};
+  let childParams: Record<string, any> = {};
+  for (let key in params) {
+    if (parentParamNames.indexOf(key) === -1) {
+      childParams[key] = params[key];
+    } else {
+      parentParams[key] = params[key];
+    }
+  }
+
+  let recognizer = childRouter._recognizer;
+  let childRouteName = childName;
+  if (!recognizer.hasRoute(childName)) {
+    let childRoute = resolveDeclaredChildRoute(childRouter, childName, childParams);
+    if (!childRoute) {
+      return null;
+    }
+    recognizer = childRouter._childRecognizer;
+    childRouteName = childRoute.name;
+    childParams = childRoute.params;
+  }
+
+  let handler = recognizer.handlersFor(childRouteName)[0].handler as RouteConfig;
+  let childPath = recognizer.generate(childRouteName, serializeRouteParams(handler.params, childParams));
+  parentParams.childRoute = childPath.charAt(0) === '/' ? childPath.substr(1) : childPath;
+  return { name: parentName, params: parentParams };
+};
+
+/**
+ * Separates the params used by the pattern of a route from the params to add to the query string
+ */
+const splitRouteParams = (
+  names: string[],
+  params: Record<string, any>
+): { routeParams: Record<string, any>, queryParams: Record<string, any> } => {
+  let routeParams: Record<string, any> = {};
+  let queryParams: Record<string, any> = {};
+  for (let name in params) {
+    if (names.indexOf(name) !== -1) {
+      routeParams[name] = params[name];
+    } else {
+      queryParams[name] = params[name];
+    }
+  }
+  return { routeParams, queryParams };
+};
+
+/**
+ * Generates the path of each auxiliary route target, keyed by the name of the view port it targets
+ */
+const generateAuxiliaryRoutes = (
+  router: Router,
+  auxiliary: Record<string, AuxiliaryRouteTarget>
+): Record<string, string> => {
+  let auxiliaryRoutes: Record<string, string> = {};
+  for (let viewPortName in auxiliary) {
+    let { route, params = {} } = auxiliary[viewPortName];
+    let handler = router._recognizer.handlersFor(route)[0].handler as RouteConfig;
+    let path = router._recognizer.generate(route, serializeRouteParams(handler.params, params));
+    auxiliaryRoutes[viewPortName] = path.replace(/^\//, '');
+  }
+  return auxiliaryRoutes;
+};
+
+/**
+ * Finds an option configured on a router or its closest ancestor
+ * @internal exported for use in other modules
+ */
+export const findRouterOption = (router: Router, name: string): any => {
+  while (router) {
+    let option = router.options[name];
+    if (option) {
+      return option;
+    }
+    router = router.parent;
+  }
+  return undefined;
+};
+
+/**
+ * Gets the query serializer configured on the closest router, then the closest query string codec, or the default one
+ */
+const getQuerySerializer = (router: Router): QuerySerializer => {
+  let querySerializer: QuerySerializer = findRouterOption(router, 'querySerializer');
+  if (querySerializer) {
+    return querySerializer;
+  }
+  let queryStringCodec: QueryStringCodec = findRouterOption(router, 'queryStringCodec');
+  return queryStringCodec ? (query => queryStringCodec.serialize(query)) : buildQueryString;
+};
+
+/**
+ * Get the root of the router tree a router belongs to
+ * @internal exported for use in other modules
+ */
+export const getRootRouter = (router: Router): Router => {
+  while (router.parent) {
+    router = router.parent;
+  }
+  return router;
+};
+
 interface IRouteRecognizationResults extends Array<RecognizedRoute> {
   queryParams: Record<string, any>;
 }
+
+interface IRecognizerEntry {
+  config: RouteConfig;
+  route: ConfigurableRoute;
+  childRoute: ConfigurableRoute | null;
+  /**
+   * Child router with the routes declared by the `children` of the route config
+   */
+  childRouter?: Router;
+  /**
+   * Resolves with the declared child routes, once they are registered with the child router
+   */
+  childrenLoaded?: Promise<RouteConfig[]>;
+}
+
+interface IRecognizerGroup {
+  recognizer: RouteRecognizer;
+  childRecognizer: RouteRecognizer;
+  entries: IRecognizerEntry[];
+  /**
+   * The recognizers of the group without the routes rejecting a URL, keyed by the indexes of these routes
+   */
+  filteredGroups?: Record<string, IRecognizerGroup>;
+}
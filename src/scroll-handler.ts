@@ -0,0 +1,26 @@
+import { ScrollPosition } from './interfaces';
+
+/**
+ * Class responsible for reading and changing the scroll position of the document,
+ * used by the router to restore scroll positions across navigations.
+ * The default implementation uses the browser window, register another implementation to scroll other elements.
+ */
+export class ScrollHandler {
+  /**
+   * Gets the current scroll position.
+   */
+  getScrollPosition(): ScrollPosition {
+    return typeof window !== 'undefined'
+      ? { x: window.pageXOffset, y: window.pageYOffset }
+      : { x: 0, y: 0 };
+  }
+
+  /**
+   * Scrolls to a position.
+   */
+  scrollTo(position: ScrollPosition): void {
+    if (typeof window !== 'undefined') {
+      window.scrollTo(position.x, position.y);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Next } from './interfaces';
+import { NavigationInstruction, isSuperseded } from './navigation-instruction';
+import { isNavigationCommand } from './navigation-commands';
+import { shouldContinue, isActivating } from './utilities-activation';
+
+/**
+ * A pipeline step responsible for running the data resolvers of the route configs of a navigation instruction,
+ * and all of its child instructions
+ */
+export class ResolveDataStep {
+  run(navigationInstruction: NavigationInstruction, next: Next): Promise<any> {
+    let instructions = navigationInstruction.getAllInstructions();
+    let pending: Promise<IResolvedValue[]>[] = instructions.map(runResolvers);
+
+    return Promise
+      .all(pending)
+      .then(
+        (resolutions) => {
+          if (isSuperseded(navigationInstruction)) {
+            return next.cancel();
+          }
+
+          for (let i = 0, ii = resolutions.length; i < ii; ++i) {
+            let resolvedValues = resolutions[i];
+            let instruction = instructions[i];
+            for (let j = 0, jj = resolvedValues.length; j < jj; ++j) {
+              let { key, value } = resolvedValues[j];
+              if (isNavigationCommand(value) && !shouldContinue(value, instruction.router)) {
+                return next.cancel(value);
+              }
+              instruction.resolvedData[key] = value;
+            }
+          }
+
+          return next();
+        },
+        next.cancel
+      );
+  }
+}
+
+interface IResolvedValue {
+  key: string;
+  value: any;
+}
+
+/**
+ * Run the resolvers of an instruction's route config, or reuse the data of the previous instruction
+ * when the route is not reactivated
+ */
+const runResolvers = (instruction: NavigationInstruction): Promise<IResolvedValue[]> => {
+  let resolvers = instruction.config.resolve;
+  if (!resolvers) {
+    return Promise.resolve([]);
+  }
+
+  let previousInstruction = instruction.previousInstruction;
+  if (previousInstruction && previousInstruction.config === instruction.config && !isActivating(instruction.plan)) {
+    Object.assign(instruction.resolvedData, previousInstruction.resolvedData);
+    return Promise.resolve([]);
+  }
+
+  let params = instruction.lifecycleArgs[0];
+  return Promise.all(
+    Object
+      .keys(resolvers)
+      .map(key => Promise
+        .resolve()
+        .then(() => resolvers[key](params, instruction))
+        .then(value => ({ key, value }))
+      )
+  );
+};
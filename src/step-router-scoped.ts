@@ -0,0 +1,46 @@
+import { Next, PipelineStep, StepRunnerFunction } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+import { Router } from './router';
+import { getStepName } from './pipeline';
+
+/**
+ * A pipeline step contributed by a child router. The step is only run
+ * when the navigation instruction tree includes an instruction of that router.
+ * @internal
+ */
+export class RouterScopedStep implements PipelineStep {
+  /**
+   * The name of the contributed step, used in navigation timings
+   */
+  name: string;
+  /**
+   * The child router the step was contributed by
+   */
+  router: Router;
+  /**
+   * The contributed step, or the class of the step to resolve from the child router's container
+   */
+  step: Function | PipelineStep;
+
+  constructor(router: Router, step: Function | PipelineStep) {
+    this.router = router;
+    this.step = step;
+    this.name = getStepName(step as PipelineStep);
+  }
+
+  run(navigationInstruction: NavigationInstruction, next: Next): Promise<any> {
+    let router = this.router;
+    let includesRouter = navigationInstruction
+      .getAllInstructions()
+      .some(instruction => instruction.router === router);
+
+    if (!includesRouter) {
+      return next();
+    }
+
+    let step: StepRunnerFunction | PipelineStep = router.container.get(this.step);
+    return typeof step === 'function'
+      ? step(navigationInstruction, next)
+      : step.run(navigationInstruction, next);
+  }
+}
@@ -0,0 +1,95 @@
+import { Next, RouteConfig, RouteScrollBehavior, ScrollPosition } from './interfaces';
+import { NavigationInstruction } from './navigation-instruction';
+import { ScrollHandler } from './scroll-handler';
+import { getRootRouter } from './router';
+
+/**
+ * The scroll positions of the navigations of the root router, by navigation tracker
+ * @internal
+ */
+export class ScrollPositions {
+  positions: Map<number, ScrollPosition> = new Map();
+  /**
+   * The navigation tracker of the navigation currently displayed
+   */
+  currentTracker: number;
+}
+
+/**
+ * A pipeline step recording the scroll position of the current navigation, before it is deactivated
+ */
+export class SaveScrollPositionStep {
+
+  /**@internal */
+  static inject() { return [ScrollHandler, ScrollPositions]; }
+  /**@internal */
+  scrollHandler: ScrollHandler;
+  /**@internal */
+  scrollPositions: ScrollPositions;
+
+  constructor(scrollHandler: ScrollHandler, scrollPositions: ScrollPositions) {
+    this.scrollHandler = scrollHandler;
+    this.scrollPositions = scrollPositions;
+  }
+
+  run(navigationInstruction: NavigationInstruction, next: Next): Promise<any> {
+    let { positions, currentTracker } = this.scrollPositions;
+    if (currentTracker) {
+      positions.set(currentTracker, this.scrollHandler.getScrollPosition());
+    }
+    return next();
+  }
+}
+
+/**
+ * A pipeline step restoring the scroll position of back and forward navigations once committed,
+ * and scrolling to the top of new navigations
+ */
+export class RestoreScrollPositionStep {
+
+  /**@internal */
+  static inject() { return [ScrollHandler, ScrollPositions]; }
+  /**@internal */
+  scrollHandler: ScrollHandler;
+  /**@internal */
+  scrollPositions: ScrollPositions;
+
+  constructor(scrollHandler: ScrollHandler, scrollPositions: ScrollPositions) {
+    this.scrollHandler = scrollHandler;
+    this.scrollPositions = scrollPositions;
+  }
+
+  run(navigationInstruction: NavigationInstruction, next: Next): Promise<any> {
+    let router = getRootRouter(navigationInstruction.router);
+    let currentTracker = router.currentNavigationTracker;
+    let behavior = getScrollBehavior(navigationInstruction, router.options.scrollBehavior);
+    this.scrollPositions.currentTracker = currentTracker;
+
+    if (behavior === 'top') {
+      this.scrollHandler.scrollTo({ x: 0, y: 0 });
+    } else if (behavior === 'restore') {
+      if (router.isNavigatingBack || router.isNavigatingForward) {
+        this.scrollHandler.scrollTo(this.scrollPositions.positions.get(currentTracker) || { x: 0, y: 0 });
+      } else if (router.isNavigatingNew && !router.isNavigatingFirst) {
+        this.scrollHandler.scrollTo({ x: 0, y: 0 });
+      }
+    }
+
+    return next();
+  }
+}
+
+/**
+ * Gets the scroll behavior of the most specific route of a navigation overriding it, or the one of the router
+ */
+const getScrollBehavior = (navigationInstruction: NavigationInstruction, scrollBehavior: boolean | RouteScrollBehavior): RouteScrollBehavior => {
+  let instructions = navigationInstruction.getAllInstructions();
+  for (let i = instructions.length - 1; i >= 0; --i) {
+    let config: RouteConfig = instructions[i].config;
+    let settings = config && config.settings;
+    if (settings && settings.scrollBehavior) {
+      return settings.scrollBehavior;
+    }
+  }
+  return scrollBehavior === true ? 'restore' : scrollBehavior || 'none';
+};
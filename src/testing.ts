@@ -0,0 +1,2 @@
+// the entry point of aurelia-router/testing, kept apart from the main entry point to leave the test helpers out of app bundles
+export { RouterTestHarness } from './router-test-harness';
@@ -0,0 +1,23 @@
+import { ViewPortTransition } from './interfaces';
+
+/**
+ * Class called around the swap of the component of each view port when a navigation is committed.
+ * The hooks can return a promise to delay the swap, or the navigation after it, for instance to run animations.
+ * The default implementation swaps view ports right away; register another implementation in the container,
+ * or set one on the `transition` of a route config.
+ */
+export class TransitionCoordinator {
+  /**
+   * Called before the component of a view port is swapped.
+   */
+  beforeSwap(transition: ViewPortTransition): void | Promise<any> {
+    // swap right away
+  }
+
+  /**
+   * Called after the component of a view port is swapped.
+   */
+  afterSwap(transition: ViewPortTransition): void | Promise<any> {
+    // nothing to wait for
+  }
+}
@@ -62,3 +62,27 @@ export function _ensureArrayWithSingleRoutePerConfig(config: RouteConfig) {
 
 const isRootedPath = /^#?\//;
 const isAbsoluteUrl = /^([a-z][a-z0-9+\-.]*:)?\/\//i;
+
+/**
+ * Compares values structurally: arrays item by item, dates by time, and plain objects key by key
+ */
+export function _deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  let keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && _deepEqual(a[key], b[key]));
+}
@@ -1,8 +1,18 @@
-import { Next, ViewPortComponent, ViewPortPlan, ViewPortInstruction, LifecycleArguments } from './interfaces';
+import {
+  Next,
+  ViewPortComponent,
+  ViewPortPlan,
+  ViewPortInstruction,
+  LifecycleArguments,
+  RouteConfig,
+  Guard,
+  RouteGuard
+} from './interfaces';
 import { isNavigationCommand } from './navigation-commands';
-import { NavigationInstruction } from './navigation-instruction';
+import { NavigationInstruction, isSuperseded } from './navigation-instruction';
 import { activationStrategy } from './activation-strategy';
 import { Router } from './router';
+import { isKeptAlive } from './keep-alive-cache';
 
 /**
  * Recursively find list of deactivate-able view models
@@ -16,7 +26,7 @@ export const processDeactivatable = (
   ignoreResult?: boolean
 ): Promise<any> => {
   let plan: Record<string, ViewPortPlan> = navigationInstruction.plan;
-  let infos = findDeactivatable(plan, callbackName);
+  let infos = findDeactivatable(plan, callbackName, [], navigationInstruction.previousInstruction);
   let i = infos.length; // query from inside out
 
   function inspect(val: any): Promise<any> {
@@ -47,35 +57,19 @@ export const processDeactivatable = (
 };
 
 /**
- * Recursively find and returns a list of deactivate-able view models
+ * Recursively find and returns a list of deactivate-able view models, and route guards.
+ * The list is processed from the end: the route guards are added last, in reverse, to run first and in their declared order.
  * @internal exported for unit testing
  */
 export const findDeactivatable = (
   plan: Record<string, ViewPortPlan>,
   callbackName: string,
-  list: IActivatableInfo[] = []
+  list: any[] = [],
+  previousInstruction?: NavigationInstruction
 ): any[] => {
-  for (let viewPortName in plan) {
-    let viewPortPlan = plan[viewPortName];
-    let prevComponent = viewPortPlan.prevComponent;
-
-    if ((viewPortPlan.strategy === activationStrategy.invokeLifecycle || viewPortPlan.strategy === activationStrategy.replace)
-      && prevComponent
-    ) {
-      let viewModel = prevComponent.viewModel;
-
-      if (callbackName in viewModel) {
-        list.push(viewModel);
-      }
-    }
-
-    if (viewPortPlan.strategy === activationStrategy.replace && prevComponent) {
-      addPreviousDeactivatable(prevComponent, callbackName, list);
-    } else if (viewPortPlan.childNavigationInstruction) {
-      findDeactivatable(viewPortPlan.childNavigationInstruction.plan, callbackName, list);
-    }
-  }
-
+  let guardList: RouteGuard[] = [];
+  collectDeactivatable(plan, callbackName, list, guardList, previousInstruction, [], new Set());
+  list.push(...guardList.reverse());
   return list;
 };
 
@@ -85,12 +79,18 @@ export const findDeactivatable = (
 export const addPreviousDeactivatable = (
   component: ViewPortComponent,
   callbackName: string,
-  list: IActivatableInfo[]
+  list: any[],
+  guardList: RouteGuard[] = [],
+  inheritedGuards: Guard[] = [],
+  collectedGuards: Set<Guard> = new Set()
 ): void => {
   let childRouter = component.childRouter;
 
   if (childRouter && childRouter.currentInstruction) {
-    let viewPortInstructions = childRouter.currentInstruction.viewPortInstructions;
+    let currentInstruction = childRouter.currentInstruction;
+    let viewPortInstructions = currentInstruction.viewPortInstructions;
+    let guards = getRouteGuards(currentInstruction.config, callbackName, inheritedGuards);
+    guardList.push(...resolveGuards(guards, childRouter, collectedGuards));
 
     for (let viewPortName in viewPortInstructions) {
       let viewPortInstruction = viewPortInstructions[viewPortName];
@@ -101,7 +101,65 @@ export const addPreviousDeactivatable = (
         list.push(prevViewModel);
       }
 
-      addPreviousDeactivatable(prevComponent, callbackName, list);
+      addPreviousDeactivatable(prevComponent, callbackName, list, guardList, guards, collectedGuards);
+    }
+  }
+};
+
+/**
+ * Recursively collect the deactivate-able view models, and the route guards in their declared order
+ */
+const collectDeactivatable = (
+  plan: Record<string, ViewPortPlan>,
+  callbackName: string,
+  list: any[],
+  guardList: RouteGuard[],
+  previousInstruction: NavigationInstruction | undefined,
+  inheritedGuards: Guard[],
+  collectedGuards: Set<Guard>
+): void => {
+  let guards = inheritedGuards;
+  if (previousInstruction) {
+    guards = getRouteGuards(previousInstruction.config, callbackName, inheritedGuards);
+    if (isActivating(plan)) {
+      guardList.push(...resolveGuards(guards, previousInstruction.router, collectedGuards));
+    }
+  }
+
+  // replaced components kept alive are deactivated once evicted from the cache
+  let keepsAlive = callbackName === 'deactivate' && isKeptAlive(previousInstruction);
+
+  for (let viewPortName in plan) {
+    let viewPortPlan = plan[viewPortName];
+    let prevComponent = viewPortPlan.prevComponent;
+
+    if (keepsAlive && viewPortPlan.strategy === activationStrategy.replace) {
+      continue;
+    }
+
+    if ((viewPortPlan.strategy === activationStrategy.invokeLifecycle || viewPortPlan.strategy === activationStrategy.replace)
+      && prevComponent
+    ) {
+      let viewModel = prevComponent.viewModel;
+
+      if (callbackName in viewModel) {
+        list.push(viewModel);
+      }
+    }
+
+    if (viewPortPlan.strategy === activationStrategy.replace && prevComponent) {
+      addPreviousDeactivatable(prevComponent, callbackName, list, guardList, guards, collectedGuards);
+    } else if (viewPortPlan.childNavigationInstruction) {
+      let childNavInstruction = viewPortPlan.childNavigationInstruction;
+      collectDeactivatable(
+        childNavInstruction.plan,
+        callbackName,
+        list,
+        guardList,
+        childNavInstruction.previousInstruction,
+        guards,
+        collectedGuards
+      );
     }
   }
 };
@@ -130,6 +188,10 @@ export const processActivatable = (
   function iterate(): Promise<any> {
     i++;
 
+    if (isSuperseded(navigationInstruction)) {
+      return next.cancel();
+    }
+
     if (i < length) {
       try {
         let current = infos[i];
@@ -153,16 +215,27 @@ interface IActivatableInfo {
 }
 
 /**
- * Find list of activatable view model and add to list (3rd parameter)
+ * Find list of activatable view model and route guards, and add to list (3rd parameter)
  * @internal exported for unit testing
  */
 export const findActivatable = (
   navigationInstruction: NavigationInstruction,
   callbackName: 'canActivate' | 'activate',
   list: IActivatableInfo[] = [],
-  router?: Router
+  router?: Router,
+  inheritedGuards: Guard[] = [],
+  collectedGuards: Set<Guard> = new Set()
 ): IActivatableInfo[] => {
   let plan: Record<string, ViewPortPlan> = navigationInstruction.plan;
+  let guards = getRouteGuards(navigationInstruction.config, callbackName, inheritedGuards);
+
+  if (isActivating(plan)) {
+    resolveGuards(guards, navigationInstruction.router, collectedGuards).forEach(guard => list.push({
+      viewModel: guard,
+      lifecycleArgs: navigationInstruction.lifecycleArgs,
+      router
+    }));
+  }
 
   Object
     .keys(plan)
@@ -174,7 +247,7 @@ export const findActivatable = (
 
       if (
         (viewPortPlan.strategy === activationStrategy.invokeLifecycle
-          || viewPortPlan.strategy === activationStrategy.replace
+          || viewPortPlan.strategy === activationStrategy.replace && !viewPortComponent.fromCache
         )
         && callbackName in viewModel
       ) {
@@ -192,7 +265,9 @@ export const findActivatable = (
           childNavInstruction,
           callbackName,
           list,
-          viewPortComponent.childRouter || router
+          viewPortComponent.childRouter || router,
+          guards,
+          collectedGuards
         );
       }
     });
@@ -200,7 +275,52 @@ export const findActivatable = (
   return list;
 };
 
-const shouldContinue = <T = any>(output: T, router?: Router): boolean | T => {
+/**
+ * Determines whether the view models of a navigation plan are (re)activated
+ * @internal exported for use in other pipeline steps
+ */
+export const isActivating = (plan: Record<string, ViewPortPlan>): boolean => {
+  for (let viewPortName in plan) {
+    let strategy = plan[viewPortName].strategy;
+    if (strategy === activationStrategy.invokeLifecycle || strategy === activationStrategy.replace) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Get the guards of a route config for a hook, preceded by the guards inherited from parent routes
+ */
+const getRouteGuards = (config: RouteConfig, callbackName: string, inheritedGuards: Guard[]): Guard[] => {
+  if (callbackName !== 'canActivate' && callbackName !== 'canDeactivate') {
+    return inheritedGuards;
+  }
+
+  let guards: Guard[] = config && config[callbackName];
+  return guards && guards.length ? inheritedGuards.concat(guards) : inheritedGuards;
+};
+
+/**
+ * Resolve the guards that have not been collected yet during a navigation from the container of a router.
+ * This ensures guards inherited by child routes only run once per navigation.
+ */
+const resolveGuards = (guards: Guard[], router: Router, collectedGuards: Set<Guard>): RouteGuard[] => {
+  let resolved: RouteGuard[] = [];
+  for (let guard of guards) {
+    if (!collectedGuards.has(guard)) {
+      collectedGuards.add(guard);
+      resolved.push(typeof guard === 'function' ? router.container.get(guard) : guard);
+    }
+  }
+  return resolved;
+};
+
+/**
+ * Determines whether the pipeline should continue processing after a hook returned a value
+ * @internal exported for use in other pipeline steps
+ */
+export const shouldContinue = <T = any>(output: T, router?: Router): boolean | T => {
   if (output instanceof Error) {
     return false;
   }
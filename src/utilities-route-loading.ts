@@ -1,9 +1,12 @@
 import { RouteConfig, ViewPortComponent, ViewPortPlan, ViewPortInstruction } from './interfaces';
 import { Redirect } from './navigation-commands';
-import { NavigationInstruction } from './navigation-instruction';
+import { NavigationInstruction, isSuperseded } from './navigation-instruction';
 import { _buildNavigationPlan } from './navigation-plan';
 import { InternalActivationStrategy } from './activation-strategy';
 import { RouteLoader } from './route-loader';
+import { copyRouteConfigs } from './router';
+import { RoutePreloader } from './route-preloader';
+import { getCachedComponent } from './keep-alive-cache';
 
 /**
  * Loading plan calculated based on a navigration-instruction and a viewport plan
@@ -89,7 +92,7 @@ export const loadRoute = (
 
       let childRouter = component.childRouter;
       if (childRouter) {
-        let path = navigationInstruction.getWildcardPath();
+        let path = navigationInstruction.getRouteInstruction(viewPortPlan.name).getWildcardPath();
 
         return childRouter
           ._createNavigationInstruction(path, navigationInstruction)
@@ -124,25 +127,51 @@ export const loadComponent = (
 ): Promise<ViewPortComponent> => {
   let router = navigationInstruction.router;
   let lifecycleArgs = navigationInstruction.lifecycleArgs;
+  let childRoutes: RouteConfig[] | undefined;
+
+  // a component kept alive is displayed again as is, its child router is already configured
+  let cachedComponent = config ? getCachedComponent(navigationInstruction, config.moduleId) : undefined;
+  if (cachedComponent) {
+    return Promise.resolve(cachedComponent);
+  }
 
   return Promise.resolve()
-    .then(() => routeLoader.loadRoute(router, config, navigationInstruction))
+    .then(() => router && router._loadChildRoutes(navigationInstruction.config))
+    .then(routes => {
+      childRoutes = routes;
+      // a module being preloaded is loaded once its preloading completes, unless it resolved to the component
+      return router && config && router.container.get(RoutePreloader).whenPreloaded(config.moduleId);
+    })
+    .then(preloadedComponent => preloadedComponent || routeLoader.loadRoute(router, config, navigationInstruction))
     .then(
       /**
        * @param component an object carrying information about loaded route
        * typically contains information about view model, childContainer, view and router
        */
       (component: ViewPortComponent) => {
+        if (isSuperseded(navigationInstruction)) {
+          throw new Error(`Navigation to "${navigationInstruction.fragment}" was superseded by a newer navigation.`);
+        }
+
         let { viewModel, childContainer } = component;
         component.router = router;
         component.config = config;
 
-        if ('configureRouter' in viewModel) {
+        let configuresRouter = 'configureRouter' in viewModel;
+        if (configuresRouter || childRoutes) {
           let childRouter = childContainer.getChildRouter();
           component.childRouter = childRouter;
 
           return childRouter
-            .configure(c => viewModel.configureRouter(c, childRouter, lifecycleArgs[0], lifecycleArgs[1], lifecycleArgs[2]))
+            .configure(c => {
+              // declared child routes are registered first, the view model can add more
+              if (childRoutes) {
+                c.map(copyRouteConfigs(childRoutes));
+              }
+              return configuresRouter
+                ? viewModel.configureRouter(c, childRouter, lifecycleArgs[0], lifecycleArgs[1], lifecycleArgs[2])
+                : c;
+            })
             .then(() => component);
         }
 
@@ -16,6 +16,7 @@ import {
   ViewPortPlan
 } from '../src/interfaces';
 import { ValueOf, createPipelineState, MockPipelineState, MockInstruction } from './shared';
+import { Container } from 'aurelia-dependency-injection';
 
 describe('activation', () => {
   describe('CanDeactivatePreviousStep', () => {
@@ -258,6 +259,158 @@ describe('activation', () => {
       step.run(instruction, state.next);
       expect(state.rejection).toBeTruthy();
     });
+
+    it('should cancel without invoking canActivate when the navigation is superseded', () => {
+      let canActivate = jasmine.createSpy('canActivate').and.returnValue(true);
+      let instruction = getNavigationInstruction(canActivate);
+      let abortController = new AbortController();
+      instruction.signal = abortController.signal;
+      abortController.abort();
+
+      step.run(instruction, state.next);
+      expect(canActivate).not.toHaveBeenCalled();
+      expect(state.rejection).toBeTruthy();
+    });
+  });
+
+  describe('route guards', () => {
+    let state: MockPipelineState;
+    let container: Container;
+    let calls: string[];
+
+    class AuthGuard {
+      static allowed = true;
+      canActivate() {
+        calls.push('AuthGuard');
+        return AuthGuard.allowed;
+      }
+      canDeactivate() {
+        calls.push('AuthGuard');
+        return true;
+      }
+    }
+
+    class AdminGuard {
+      canActivate() {
+        calls.push('AdminGuard');
+        return true;
+      }
+      canDeactivate() {
+        calls.push('AdminGuard');
+        return true;
+      }
+    }
+
+    const createInstruction = (
+      config: RouteConfig,
+      name: string,
+      strategy: ValueOf<ActivationStrategy>,
+      childNavigationInstruction?: NavigationInstruction
+    ): NavigationInstruction => {
+      const childRouter = childNavigationInstruction ? childNavigationInstruction.router : undefined;
+      return {
+        config,
+        router: { container },
+        lifecycleArgs: [{}, config, null, {}],
+        plan: {
+          default: { strategy, childNavigationInstruction }
+        },
+        viewPortInstructions: {
+          default: {
+            component: {
+              viewModel: { canActivate: () => (calls.push(name), true) },
+              childRouter
+            },
+            lifecycleArgs: []
+          }
+        }
+      } as any;
+    };
+
+    beforeEach(() => {
+      state = createPipelineState();
+      container = new Container();
+      calls = [];
+      AuthGuard.allowed = true;
+    });
+
+    it('resolves guards from the container and runs them in order before the view model', () => {
+      const instruction = createInstruction(
+        { route: 'admin', canActivate: [AuthGuard, AdminGuard] },
+        'admin',
+        activationStrategy.replace
+      );
+
+      new CanActivateNextStep().run(instruction, state.next);
+      expect(calls).toEqual(['AuthGuard', 'AdminGuard', 'admin']);
+      expect(state.result).toBe(true);
+      expect(container.get(AuthGuard)).toEqual(jasmine.any(AuthGuard));
+    });
+
+    it('cancels without invoking the view model when a guard rejects', () => {
+      AuthGuard.allowed = false;
+      const instruction = createInstruction(
+        { route: 'admin', canActivate: [AuthGuard, AdminGuard] },
+        'admin',
+        activationStrategy.replace
+      );
+
+      new CanActivateNextStep().run(instruction, state.next);
+      expect(calls).toEqual(['AuthGuard']);
+      expect(state.rejection).toBeTruthy();
+    });
+
+    it('supports guard instances', () => {
+      const guard = { canActivate: jasmine.createSpy('canActivate').and.returnValue(true) };
+      const config: RouteConfig = { route: 'admin', canActivate: [guard] };
+      const instruction = createInstruction(config, 'admin', activationStrategy.replace);
+
+      new CanActivateNextStep().run(instruction, state.next);
+      expect(guard.canActivate).toHaveBeenCalledWith({}, config, null, {});
+    });
+
+    it('runs the guards inherited from a parent route that is not reactivated', () => {
+      const child = createInstruction({ route: 'users', canActivate: [AdminGuard] }, 'users', activationStrategy.replace);
+      const parent = createInstruction(
+        { route: 'admin', canActivate: [AuthGuard] },
+        'admin',
+        activationStrategy.noChange,
+        child
+      );
+
+      new CanActivateNextStep().run(parent, state.next);
+      expect(calls).toEqual(['AuthGuard', 'AdminGuard', 'users']);
+    });
+
+    it('runs guards declared by both a parent and a child route once', () => {
+      const child = createInstruction({ route: 'users', canActivate: [AuthGuard] }, 'users', activationStrategy.replace);
+      const parent = createInstruction(
+        { route: 'admin', canActivate: [AuthGuard] },
+        'admin',
+        activationStrategy.replace,
+        child
+      );
+
+      new CanActivateNextStep().run(parent, state.next);
+      expect(calls).toEqual(['AuthGuard', 'admin', 'users']);
+    });
+
+    it('runs the canDeactivate guards of the previous route in order before its view model', () => {
+      const navigationInstruction = {
+        router: {},
+        previousInstruction: { config: { route: 'admin', canDeactivate: [AuthGuard, AdminGuard] }, router: { container } },
+        plan: {
+          default: {
+            strategy: activationStrategy.replace,
+            prevComponent: { viewModel: { canDeactivate: () => (calls.push('admin'), true) }, childRouter: null }
+          }
+        }
+      } as any;
+
+      new CanDeactivatePreviousStep().run(navigationInstruction, state.next);
+      expect(calls).toEqual(['AuthGuard', 'AdminGuard', 'admin']);
+      expect(state.result).toBe(true);
+    });
   });
 
   describe('ActivateNextStep', () => {
@@ -10,9 +10,12 @@ import {
   NavigationCommand,
   Next,
   RouterConfiguration,
-  PipelineStep
+  PipelineStep,
+  BuildNavigationPlanStep,
+  PipelineResult
 } from '../src/aurelia-router';
 import { MockHistory, MockInstruction } from './shared';
+import { RouterTestHarness } from '../src/testing';
 import { EventAggregator } from 'aurelia-event-aggregator';
 import { History } from 'aurelia-history';
 import {
@@ -149,6 +152,29 @@ describe('app-router', () => {
         .then(done);
     });
 
+    it('triggers step events and attaches timings on successful navigations', async () => {
+      class MockPlanStep extends BuildNavigationPlanStep {
+        run(ctx: NavigationInstruction, next: Next) {
+          return next();
+        }
+      }
+      provider.createPipeline = () => {
+        let p = new Pipeline();
+        p.addStep(new MockPlanStep());
+        p.addStep({ run: (ctx: NavigationInstruction, next: Next) => next.complete({}) });
+        return p;
+      };
+
+      const result = await router._dequeueInstruction();
+      const timing = jasmine.objectContaining({ name: 'MockPlanStep' });
+      expect(ea.publish).toHaveBeenCalledWith('router:navigation:plan:built', { instruction, timing });
+      expect(ea.publish).not.toHaveBeenCalledWith('router:navigation:committed', jasmine.anything());
+      expect(ea.publish).toHaveBeenCalledWith('router:navigation:complete', jasmine.objectContaining({
+        result: jasmine.objectContaining({ timings: jasmine.objectContaining({ steps: [timing, jasmine.anything()] }) })
+      }));
+      expect((result as PipelineResult).timings.steps.length).toBe(2);
+    });
+
     it('returns expected results from successful navigations', (done) => {
       let output = {};
       pipelineStep = (ctx: any, next: Next) => next.complete(output);
@@ -228,6 +254,15 @@ describe('app-router', () => {
         .catch(expectSuccess)
         .then(done);
     });
+
+    it('forgets the navigating instruction when the pipeline fails', async () => {
+      const error = new Error('test');
+      provider.createPipeline = () => ({ run: () => Promise.reject(error) } as any as Pipeline);
+
+      const result = await router._dequeueInstruction() as PipelineResult;
+      expect(result.output).toBe(error);
+      expect(router._navigatingInstruction).toBeNull();
+    });
   });
 
   describe('loadUrl', () => {
@@ -278,7 +313,62 @@ describe('app-router', () => {
         .catch(() => expect(true).toBeFalsy('should have succeeded'))
         .then(done);
     });
+
+    it('restores the auxiliary routes of the previous location when a navigation is canceled', async () => {
+      const harness = new RouterTestHarness({ './inbox': {}, './menu': {}, './chat': {} });
+      await harness.configure(config => {
+        config.map([
+          { name: 'inbox', route: 'inbox', viewPorts: { default: { moduleId: './inbox' }, sidebar: { moduleId: './menu' } } },
+          { name: 'chat', route: 'chat/:id', moduleId: './chat' },
+          { name: 'locked', route: 'locked', moduleId: './inbox', canActivate: [{ canActivate: () => false }] }
+        ]);
+      });
+
+      await harness.navigate('inbox(sidebar:chat/42)?unread=true');
+      expect(harness.router.history.previousLocation).toBe('inbox(sidebar:chat/42)?unread=true');
+      expect(harness.router.navigationHistory.peek().auxiliaryRoutes).toEqual({ sidebar: 'chat/42' });
+
+      const result = await harness.navigate('locked');
+      expect(result.completed).toBe(false);
+      expect(harness.history.fragment).toBe('inbox(sidebar:chat/42)?unread=true');
+    });
+  });
+  describe('superseded navigation', () => {
+    let first: NavigationInstruction;
+    let second: NavigationInstruction;
+
+    beforeEach(() => {
+      first = new NavigationInstruction({ fragment: 'first', config: null, router });
+      second = new NavigationInstruction({ fragment: 'second', config: null, router });
+      spyOn(ea, 'publish');
+      spyOn(history, 'navigate');
+    });
+
+    it('aborts the running instruction when a newer one is queued', async () => {
+      let secondQueued: Promise<any>;
+      pipelineStep = (inst: NavigationInstruction, next: Next) => {
+        if (inst === first) {
+          secondQueued = router._queueInstruction(second);
+          expect(first.signal.aborted).toBe(true);
+          return next();
+        }
+        return next.complete({});
+      };
+
+      const firstResult = await router._queueInstruction(first);
+      const secondResult = await secondQueued;
+
+      expect(firstResult.status).toBe('superseded');
+      expect(firstResult.completed).toBe(false);
+      expect(secondResult.status).toBe('completed');
+      expect(second.signal.aborted).toBe(false);
+      expect(ea.publish).toHaveBeenCalledWith('router:navigation:superseded', jasmine.objectContaining({ instruction: first }));
+      expect(ea.publish).toHaveBeenCalledWith('router:navigation:processing', jasmine.objectContaining({ instruction: second }));
+      expect(ea.publish).toHaveBeenCalledWith('router:navigation:success', jasmine.objectContaining({ instruction: second }));
+      expect(history.navigate).not.toHaveBeenCalled();
+    });
   });
+
   describe('instruction completes as navigation command', () => {
     it('should complete instructions in order before terminating', done => {
       const pipeline = new Pipeline()
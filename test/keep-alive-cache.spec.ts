@@ -0,0 +1,113 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import {
+  AppRouter,
+  KeepAliveCache,
+  NavigationInstruction,
+  PipelineProvider,
+  RouteConfig,
+  activationStrategy
+} from '../src/aurelia-router';
+import { findActivatable, findDeactivatable } from '../src/utilities-activation';
+import { loadComponent } from '../src/utilities-route-loading';
+import { RouteLoader } from '../src/route-loader';
+import { ViewPortComponent } from '../src/interfaces';
+
+describe('KeepAliveCache', () => {
+  const component = (name: string): ViewPortComponent => ({ viewModel: { name }, router: null });
+
+  it('evicts the least recently used components of a route', () => {
+    const cache = new KeepAliveCache();
+    const config: RouteConfig = { route: 'tabs/:id', keepAlive: { max: 2 } };
+    const [first, second, third] = [component('1'), component('2'), component('3')];
+
+    expect(cache.add(config, 'tab?id=1', first)).toEqual([]);
+    expect(cache.add(config, 'tab?id=2', second)).toEqual([]);
+    expect(cache.get(config, 'tab?id=1')).toBe(first);
+    expect(cache.add(config, 'tab?id=3', third)).toEqual([second]);
+    expect(cache.get(config, 'tab?id=2')).toBeUndefined();
+    expect(cache.get({ route: 'other', keepAlive: true }, 'tab?id=1')).toBeUndefined();
+  });
+
+  describe('routes kept alive', () => {
+    let router: AppRouter;
+    let events: string[];
+
+    const tabViewModel = (id: string) => ({
+      activate: () => events.push(`activate ${id}`),
+      deactivate: () => events.push(`deactivate ${id}`),
+      attachedFromCache: () => events.push(`attached ${id}`),
+      detachedToCache: () => events.push(`detached ${id}`)
+    });
+
+    const navigate = async (fragment: string, previousInstruction: NavigationInstruction, loaded: ViewPortComponent) => {
+      const instruction = await router._createNavigationInstruction(fragment);
+      instruction.previousInstruction = previousInstruction;
+      const prevComponent = previousInstruction && previousInstruction.viewPortInstructions.default.component;
+      const routeLoader = { loadRoute: () => Promise.resolve(loaded) } as any as RouteLoader;
+      const viewPortConfig = { moduleId: 'tab' } as RouteConfig;
+      const component = await loadComponent(routeLoader, instruction, viewPortConfig);
+
+      instruction.plan = {
+        default: { name: 'default', strategy: activationStrategy.replace, config: viewPortConfig, prevComponent, prevModuleId: 'tab' }
+      };
+      instruction.addViewPortInstruction('default', activationStrategy.replace, 'tab', component);
+      findDeactivatable(instruction.plan, 'deactivate', [], previousInstruction).forEach(x => x.deactivate());
+      findActivatable(instruction, 'activate').forEach(x => x.viewModel.activate());
+      await instruction._commitChanges(false);
+      return instruction;
+    };
+
+    beforeEach(() => {
+      events = [];
+      router = new AppRouter(new Container(), new MockHistory(), new PipelineProvider(new Container()), null);
+      router.viewPorts.default = { process: () => Promise.resolve(), swap() { /**/ } };
+      router.addRoute({ route: 'tabs/:id', moduleId: 'tab', keepAlive: { max: 1 } });
+    });
+
+    it('reuse the replaced components instead of activating new ones', async () => {
+      const first = { viewModel: tabViewModel('1') } as ViewPortComponent;
+      const firstInstruction = await navigate('tabs/1', null, first);
+      const secondInstruction = await navigate('tabs/2', firstInstruction, { viewModel: tabViewModel('2') } as ViewPortComponent);
+      const thirdInstruction = await navigate('tabs/1', secondInstruction, { viewModel: tabViewModel('new 1') } as ViewPortComponent);
+
+      expect(thirdInstruction.viewPortInstructions.default.component).toBe(first);
+      expect(events).toEqual(['activate 1', 'activate 2', 'detached 1', 'attached 1', 'detached 2']);
+    });
+
+    it('take the components out of the cache each time they are displayed again', async () => {
+      const first = { viewModel: tabViewModel('1') } as ViewPortComponent;
+      const second = { viewModel: tabViewModel('2') } as ViewPortComponent;
+      let instruction = await navigate('tabs/1', null, first);
+      instruction = await navigate('tabs/2', instruction, second);
+      instruction = await navigate('tabs/1', instruction, { viewModel: tabViewModel('new 1') } as ViewPortComponent);
+      instruction = await navigate('tabs/2', instruction, { viewModel: tabViewModel('new 2') } as ViewPortComponent);
+      expect(first.fromCache).toBe(false);
+      instruction = await navigate('tabs/1', instruction, { viewModel: tabViewModel('new 1') } as ViewPortComponent);
+
+      expect(instruction.viewPortInstructions.default.component).toBe(first);
+      expect(first.fromCache).toBe(false);
+      expect(events).toEqual([
+        'activate 1', 'activate 2', 'detached 1',
+        'attached 1', 'detached 2', 'attached 2', 'detached 1',
+        'attached 1', 'detached 2'
+      ]);
+
+      // a component out of the cache is activated when it is loaded again
+      events = [];
+      await navigate('tabs/3', instruction, first);
+      expect(events).toEqual(['activate 1']);
+    });
+
+    it('deactivate the components evicted from the cache', async () => {
+      const firstInstruction = await navigate('tabs/1', null, { viewModel: tabViewModel('1') } as ViewPortComponent);
+      const secondInstruction = await navigate('tabs/2', firstInstruction, { viewModel: tabViewModel('2') } as ViewPortComponent);
+      await navigate('tabs/3', secondInstruction, { viewModel: tabViewModel('3') } as ViewPortComponent);
+
+      expect(events).toEqual(['activate 1', 'activate 2', 'detached 1', 'activate 3', 'detached 2', 'deactivate 1']);
+      const cache = router.container.get(KeepAliveCache) as KeepAliveCache;
+      expect(cache.get(router.routes[0], 'tab?id=1')).toBeUndefined();
+      expect(cache.get(router.routes[0], 'tab?id=2')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import { AppRouter, MemoryHistory, PipelineProvider, usesPushState } from '../src/aurelia-router';
+
+describe('MemoryHistory', () => {
+  let history: MemoryHistory;
+  let loaded: string[];
+
+  beforeEach(() => {
+    history = new MemoryHistory('#/home', 'https://example.com');
+    loaded = [];
+  });
+
+  it('keeps a stack of entries with a cursor on the current one', () => {
+    expect(history.navigate('users', { trigger: false })).toBe(false);
+    expect(history.activate({ routeHandler: (fragment: string) => loaded.push(fragment) > 0 })).toBe(true);
+
+    history.setState('NavigationTracker', 1);
+    expect(history.navigate('#/users?page=2')).toBe(true);
+    expect(history.navigate('users?page=2')).toBe(false);
+    expect(history.getState('NavigationTracker')).toBeUndefined();
+    history.setTitle('Users');
+
+    history.navigateBack();
+    expect(history.fragment).toBe('home');
+    expect(history.getState('NavigationTracker')).toBe(1);
+
+    history.navigate('about', { replace: true, trigger: false });
+    history.go(1);
+    expect(history.title).toBe('Users');
+    history.go(1);
+
+    expect(history.entries.map(entry => entry.fragment)).toEqual(['about', 'users?page=2']);
+    expect(history.index).toBe(1);
+    expect(loaded).toEqual(['home', 'users?page=2', 'home', 'users?page=2']);
+
+    history.navigateBack();
+    history.navigate('settings', { trigger: false });
+    expect(history.entries.map(entry => entry.fragment)).toEqual(['about', 'settings']);
+  });
+
+  it('honors the root, pushState and silent options', () => {
+    history.activate({ root: 'app', pushState: true, silent: true, routeHandler: (fragment: string) => loaded.push(fragment) });
+
+    expect(history.usesPushState()).toBe(true);
+    expect(history.getAbsoluteRoot()).toBe('https://example.com/app/');
+    history.navigate('/app/users');
+    expect(history.fragment).toBe('users');
+    expect(loaded).toEqual(['users']);
+    expect(() => history.activate()).toThrowError('MemoryHistory has already been activated.');
+
+    history.deactivate();
+    expect(usesPushState(history)).toBe(false);
+    expect(history.getAbsoluteRoot()).toBe('https://example.com/');
+  });
+
+  it('is queried by the router for its capabilities', async () => {
+    const mockHistory = new MockHistory();
+    expect(usesPushState(mockHistory)).toBe(false);
+    mockHistory._hasPushState = true;
+    expect(usesPushState(mockHistory)).toBe(true);
+
+    const router = new AppRouter(new Container(), history, new PipelineProvider(new Container()), null);
+    await router.configure(config => config.map({ name: 'users', route: 'users', moduleId: './users' }));
+    expect(router.generate('users')).toBe('#/users');
+
+    history.activate({ pushState: true, silent: true });
+    expect(router.generate('users')).toBe('/users');
+  });
+});
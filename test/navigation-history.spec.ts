@@ -0,0 +1,93 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import { AppRouter, MemoryHistory, NavigationHistory, NavigationInstruction, PipelineProvider } from '../src/aurelia-router';
+
+describe('NavigationHistory', () => {
+  let router: AppRouter;
+  let navigationHistory: NavigationHistory;
+
+  const record = (fragment: string, name: string, navigationTracker: number, params: Record<string, any> = {}) => {
+    const instruction = { fragment, queryString: '', config: { name }, params } as any as NavigationInstruction;
+    navigationHistory._record(instruction, navigationTracker);
+  };
+
+  beforeEach(() => {
+    router = new AppRouter(new Container(), new MockHistory(), new PipelineProvider(new Container()), null);
+    navigationHistory = router.navigationHistory;
+  });
+
+  it('keeps snapshots of the committed navigations', () => {
+    expect(navigationHistory.canGoBack).toBe(false);
+    expect(navigationHistory.peek()).toBeUndefined();
+
+    record('users', 'users', 1);
+    record('users/5', 'user', 2, { id: '5' });
+
+    expect(navigationHistory.canGoBack).toBe(true);
+    expect(navigationHistory.peek()).toEqual({
+      fragment: 'users/5', queryString: '', auxiliaryRoutes: {}, name: 'user', params: { id: '5' }, title: '', navigationTracker: 2
+    });
+    expect(navigationHistory.peek(1).name).toBe('users');
+    expect(navigationHistory.peek(2)).toBeUndefined();
+    expect(navigationHistory.peek(-1)).toBeUndefined();
+  });
+
+  it('moves through the snapshots on back and forward navigations', () => {
+    record('home', 'home', 1);
+    record('users', 'users', 2);
+    record('users/5', 'user', 3);
+
+    record('users', 'users', 2);
+    expect(navigationHistory.index).toBe(1);
+    expect(navigationHistory.peek().name).toBe('users');
+
+    record('users/5', 'user', 3);
+    expect(navigationHistory.index).toBe(2);
+
+    record('home', 'home', 1);
+    record('about', 'about', 4);
+    expect(navigationHistory.entries.map(x => x.name)).toEqual(['home', 'about']);
+    expect(navigationHistory.canGoBack).toBe(true);
+  });
+
+  it('navigates back to the most recent navigation to a route', () => {
+    spyOn(router, 'navigateBack');
+    record('home', 'home', 1);
+    record('users', 'users', 2);
+    record('users/5', 'user', 3);
+    record('users/6', 'user', 4);
+
+    expect(navigationHistory.backTo('about')).toBe(false);
+    expect(navigationHistory.backTo('user')).toBe(true);
+    expect(router.navigateBack).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not go back several navigations without a history able to traverse them at once', () => {
+    spyOn(router, 'navigateBack');
+    spyOn(router, 'navigate');
+    record('home', 'home', 1);
+    record('users', 'users', 2);
+    record('users/5', 'user', 3);
+
+    expect(navigationHistory.backTo('home')).toBe(false);
+    expect(router.navigateBack).not.toHaveBeenCalled();
+    expect(router.navigate).not.toHaveBeenCalled();
+    expect(navigationHistory.index).toBe(2);
+  });
+
+  it('goes back several navigations in a single traversal of the history', () => {
+    const history = new MemoryHistory();
+    history.activate({ silent: true });
+    router = new AppRouter(new Container(), history, new PipelineProvider(new Container()), null);
+    navigationHistory = router.navigationHistory;
+    spyOn(history, 'go');
+    record('home', 'home', 1);
+    record('users', 'users', 2);
+    record('users/5', 'user', 3);
+
+    expect(navigationHistory.backTo('home')).toBe(true);
+    expect(history.go).toHaveBeenCalledTimes(1);
+    expect(history.go).toHaveBeenCalledWith(-2);
+    expect(router.isExplicitNavigationBack).toBe(true);
+  });
+});
@@ -5,7 +5,11 @@ import {
   AppRouter,
   Router,
   RouterConfiguration,
-  PipelineProvider
+  PipelineProvider,
+  TransitionCoordinator,
+  ViewPortTransition,
+  TransitionMode,
+  activationStrategy
 } from '../src/aurelia-router';
 
 import {
@@ -222,4 +226,67 @@ describe('NavigationInstruction', () => {
         .catch(fail);
     });
   });
+
+  describe('view port transitions', () => {
+    let events: string[];
+
+    class RecordingCoordinator extends TransitionCoordinator {
+      beforeSwap(transition: ViewPortTransition) {
+        events.push(`before ${transition.viewPortName} ${transition.outgoing.viewModel.name}>${transition.incoming.viewModel.name}`);
+        return new Promise(resolve => setTimeout(resolve, transition.viewPortName === 'left' ? 5 : 0));
+      }
+
+      afterSwap(transition: ViewPortTransition) {
+        events.push(`after ${transition.viewPortName}`);
+      }
+    }
+
+    const commit = async (mode?: TransitionMode) => {
+      const component = (name: string) => ({ viewModel: { name } }) as any;
+      for (const name of ['left', 'right']) {
+        router.viewPorts[name] = { process: () => Promise.resolve(), swap: () => events.push(`swap ${name}`) };
+      }
+      router.addRoute({
+        route: 'home',
+        viewPorts: { left: { moduleId: 'menu' }, right: { moduleId: 'home' } },
+        transition: { mode, coordinator: RecordingCoordinator }
+      });
+      const instruction = await router._createNavigationInstruction('home');
+      instruction.plan = {
+        left: { name: 'left', strategy: activationStrategy.replace, config: {}, prevComponent: component('oldMenu') },
+        right: { name: 'right', strategy: activationStrategy.replace, config: {}, prevComponent: component('oldHome') }
+      };
+      instruction.addViewPortInstruction('left', activationStrategy.replace, 'menu', component('menu'));
+      instruction.addViewPortInstruction('right', activationStrategy.replace, 'home', component('home'));
+      await instruction._commitChanges(true);
+    };
+
+    beforeEach(() => {
+      events = [];
+    });
+
+    it('swaps the view ports simultaneously through the transition coordinator of the route', async () => {
+      await commit();
+      expect(events).toEqual([
+        'before left oldMenu>menu',
+        'before right oldHome>home',
+        'swap right',
+        'after right',
+        'swap left',
+        'after left'
+      ]);
+    });
+
+    it('swaps the view ports one after the other in sequential mode', async () => {
+      await commit('sequential');
+      expect(events).toEqual([
+        'before left oldMenu>menu',
+        'swap left',
+        'after left',
+        'before right oldHome>home',
+        'swap right',
+        'after right'
+      ]);
+    });
+  });
 });
@@ -496,5 +496,73 @@ describe('NavigationPlanStep', () => {
           done();
         });
     });
+
+    it('follows the query params behavior of the route over compareQueryParams', async () => {
+      firstInstruction.queryParams = { sort: 'name' };
+      sameAsFirstInstruction.queryParams = { sort: 'age' };
+      firstInstruction.addViewPortInstruction('default', 'ignored' as any, './first', { viewModel: {} });
+
+      sameAsFirstInstruction.options.compareQueryParams = true;
+      sameAsFirstInstruction.config.queryParamsBehavior = 'ignore';
+      await step.run(sameAsFirstInstruction, state.next);
+      expect(sameAsFirstInstruction.plan.default.strategy).toBe('no-change');
+
+      sameAsFirstInstruction.options.compareQueryParams = false;
+      sameAsFirstInstruction.config.queryParamsBehavior = 'invoke-lifecycle';
+      await step.run(sameAsFirstInstruction, state.next);
+      expect(sameAsFirstInstruction.plan.default.strategy).toBe('invoke-lifecycle');
+    });
+
+    it('notifies the kept view models of query params only changes', async () => {
+      const viewModel = { queryParamsChanged: jasmine.createSpy('queryParamsChanged') };
+      firstInstruction.queryParams = { sort: 'name' };
+      sameAsFirstInstruction.queryParams = { sort: 'age' };
+      sameAsFirstInstruction.config.queryParamsBehavior = 'notify';
+      firstInstruction.config.navModel = sameAsFirstInstruction.config.navModel = {} as any;
+      firstInstruction.addViewPortInstruction('default', 'ignored' as any, './first', { viewModel });
+
+      await step.run(sameAsFirstInstruction, state.next);
+      expect(sameAsFirstInstruction.plan.default.strategy).toBe('no-change');
+
+      router.viewPorts.default = { process: () => Promise.resolve(), swap() { /**/ } };
+      sameAsFirstInstruction.addViewPortInstruction('default', 'no-change', './first', { viewModel });
+      await sameAsFirstInstruction._commitChanges(false);
+      expect(viewModel.queryParamsChanged).toHaveBeenCalledWith({ sort: 'age' }, { sort: 'name' }, sameAsFirstInstruction);
+    });
+
+    it('compares nested query params by value', async () => {
+      firstInstruction.queryParams = { filter: { tags: ['a', 'b'], from: new Date(0) } };
+      sameAsFirstInstruction.queryParams = { filter: { tags: ['a', 'b'], from: new Date(0) } };
+      sameAsFirstInstruction.options.compareQueryParams = true;
+      firstInstruction.addViewPortInstruction('default', 'ignored' as any, './first', { viewModel: {} });
+
+      await step.run(sameAsFirstInstruction, state.next);
+      expect(sameAsFirstInstruction.plan.default.strategy).toBe('no-change');
+
+      sameAsFirstInstruction.queryParams = { filter: { tags: ['a', 'c'], from: new Date(0) } };
+      await step.run(sameAsFirstInstruction, state.next);
+      expect(sameAsFirstInstruction.plan.default.strategy).toBe('invoke-lifecycle');
+    });
+
+    it('compares the params of the auxiliary routes for the view ports they target', async () => {
+      const chat = (id: string, previousInstruction?: NavigationInstruction) => new NavigationInstruction({
+        fragment: `chat/${id}`,
+        config: { route: 'chat/:id', viewPorts: { default: { moduleId: './chat' } } },
+        params: { id },
+        previousInstruction,
+        router
+      });
+      firstInstruction.auxiliaryInstructions.sidebar = chat('1');
+      sameAsFirstInstruction.auxiliaryInstructions.sidebar = chat('2', firstInstruction.auxiliaryInstructions.sidebar);
+      sameAsFirstInstruction.auxiliaryInstructions.footer = chat('3');
+      firstInstruction.addViewPortInstruction('default', 'ignored' as any, './first', { viewModel: {} });
+      firstInstruction.addViewPortInstruction('sidebar', 'ignored' as any, './chat', { viewModel: {} });
+
+      await step.run(sameAsFirstInstruction, state.next);
+      expect(sameAsFirstInstruction.plan.default.strategy).toBe('no-change');
+      expect(sameAsFirstInstruction.plan.sidebar.strategy).toBe('invoke-lifecycle');
+      expect(sameAsFirstInstruction.plan.footer.strategy).toBe('replace');
+      expect(sameAsFirstInstruction.plan.footer.config.moduleId).toBe('./chat');
+    });
   });
 });
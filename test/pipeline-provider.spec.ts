@@ -0,0 +1,227 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import {
+  AppRouter,
+  activationStrategy,
+  PipelineProvider,
+  PipelineStep,
+  Next,
+  NavigationInstruction,
+  LoadRouteStep,
+  CommitChangesStep,
+  CanDeactivatePreviousStep,
+  PipelineStatus,
+  RouterConfiguration,
+  Router
+} from '../src/aurelia-router';
+import { RouterTestHarness } from '../src/testing';
+
+describe('PipelineProvider', () => {
+  let provider: PipelineProvider;
+
+  const createStep = (name: string): PipelineStep => ({
+    name,
+    run(instruction: NavigationInstruction, next: Next) {
+      return next();
+    }
+  });
+
+  const describeSlot = (slot: string) => provider
+    .getPipelineDescription()
+    .filter(x => x.slot === slot)
+    .map(x => x.name);
+
+  beforeEach(() => {
+    provider = new PipelineProvider(new Container());
+  });
+
+  it('describes the built-in steps in order', () => {
+    expect(provider.getPipelineDescription().map(x => x.name)).toEqual([
+      'BuildNavigationPlanStep',
+      'CanDeactivatePreviousStep',
+      'LoadRouteStep',
+      'ResolveDataStep',
+      'CanActivateNextStep',
+      'DeactivatePreviousStep',
+      'ActivateNextStep',
+      'CommitChangesStep'
+    ]);
+  });
+
+  it('orders the steps of a slot by priority, then by insertion', () => {
+    provider.addStep('authorize', createStep('first'));
+    provider.addStep('authorize', createStep('important'), { priority: 10 });
+    provider.addStep('authorize', createStep('second'));
+    provider.addStep('authorize', createStep('last'), { priority: -1 });
+
+    expect(describeSlot('authorize')).toEqual(['important', 'first', 'second', 'last']);
+  });
+
+  it('inserts steps before or after other steps of the same slot', () => {
+    const session = createStep('session');
+    const auth = createStep('auth');
+    provider.addStep('authorize', auth, { after: session });
+    provider.addStep('authorize', session);
+    provider.addStep('authorize', createStep('audit'), { before: session, priority: -5 });
+
+    expect(describeSlot('authorize')).toEqual(['audit', 'session', 'auth']);
+  });
+
+  it('inserts steps next to built-in steps, while the slot keeps ownership of them', () => {
+    const afterLoad = createStep('afterLoad');
+    provider.addStep('preRender', createStep('render'));
+    provider.addStep('preRender', createStep('beforeCommit'), { before: CommitChangesStep });
+    provider.addStep('authorize', afterLoad, { after: LoadRouteStep });
+
+    const description = provider.getPipelineDescription();
+    const names = description.map(x => x.name);
+    expect(names.slice(names.indexOf('LoadRouteStep'), names.indexOf('LoadRouteStep') + 2)).toEqual(['LoadRouteStep', 'afterLoad']);
+    expect(names.slice(names.indexOf('render'), names.indexOf('render') + 3)).toEqual(['render', 'beforeCommit', 'CommitChangesStep']);
+    expect(description.find(x => x.name === 'afterLoad').slot).toBe('authorize');
+
+    provider.removeStep('authorize', afterLoad);
+    expect(provider.getPipelineDescription().map(x => x.name)).not.toContain('afterLoad');
+    provider.reset();
+    expect(provider.getPipelineDescription().map(x => x.name)).not.toContain('beforeCommit');
+  });
+
+  it('ignores the removal of a step that was not added', () => {
+    provider.addStep('authorize', createStep('auth'));
+    provider.removeStep('authorize', createStep('other'));
+
+    expect(describeSlot('authorize')).toEqual(['auth']);
+  });
+
+  it('throws when a step is added both before and after other steps', () => {
+    expect(() => provider.addStep('authorize', createStep('auth'), { before: LoadRouteStep, after: CommitChangesStep }))
+      .toThrowError(/both before and after/);
+  });
+
+  it('creates a pipeline in the resolved order', () => {
+    provider.addStep('authorize', createStep('auth'));
+    provider.addStep('postRender', createStep('beforeDeactivate'), { after: CanDeactivatePreviousStep });
+
+    const pipeline = provider.createPipeline(false);
+    const steps = [].concat(...pipeline._stepInfos.map(x => x.resolveSlotSteps
+      ? x.resolveSlotSteps().map(slotStep => `${slotStep.slot}:${(slotStep.step as PipelineStep).name}`)
+      : [x.name]));
+    expect(steps.slice(0, 5)).toEqual([
+      'BuildNavigationPlanStep',
+      'postRender:beforeDeactivate',
+      'LoadRouteStep',
+      'authorize:auth',
+      'ResolveDataStep'
+    ]);
+  });
+
+  describe('custom slots', () => {
+    it('adds slots relative to built-in steps and other slots', () => {
+      provider.addSlot('postLoad', { after: LoadRouteStep });
+      provider.addSlot('preCommit', { before: 'postRender' });
+      provider.addStep('postLoad', createStep('analytics'));
+      provider.addStep('preCommit', createStep('snapshot'));
+      provider.addStep('postRender', createStep('scroll'));
+
+      const names = provider.getPipelineDescription().map(x => x.name);
+      expect(names.indexOf('analytics')).toBe(names.indexOf('LoadRouteStep') + 1);
+      expect(names.slice(-3)).toEqual(['CommitChangesStep', 'snapshot', 'scroll']);
+      expect(describeSlot('postLoad')).toEqual(['analytics']);
+    });
+
+    it('adds slots without position at the end of the pipeline', () => {
+      provider.addSlot('last');
+      provider.addStep('last', createStep('final'));
+      provider.addStep('postRender', createStep('scroll'));
+
+      expect(provider.getPipelineDescription().slice(-2).map(x => x.name)).toEqual(['scroll', 'final']);
+    });
+
+    it('throws for unknown positions', () => {
+      expect(() => provider.addSlot('postLoad', { after: 'unknown' })).toThrowError(/Invalid pipeline slot position: unknown/);
+      expect(() => provider.addStep('postLoad', createStep('analytics'))).toThrowError(/Invalid pipeline slot name/);
+    });
+
+    it('removes custom slots on reset', () => {
+      provider.addSlot('postLoad', { after: LoadRouteStep });
+      provider.addStep('postLoad', createStep('analytics'));
+      provider.reset();
+
+      expect(provider._findStep('postLoad')).toBeUndefined();
+      expect(provider.getPipelineDescription().map(x => x.name)).not.toContain('analytics');
+    });
+
+    it('are declared through the router configuration', () => {
+      const router = { isRoot: true, options: {}, pipelineProvider: provider } as Router;
+      const config = new RouterConfiguration()
+        .addPipelineStep('preDeactivate', createStep('confirm'))
+        .addPipelineSlot('preDeactivate', { before: 'preActivate' });
+      config.exportToRouter(router);
+
+      expect(describeSlot('preDeactivate')).toEqual(['confirm']);
+    });
+  });
+
+  describe('steps of child routers', () => {
+    let root: AppRouter;
+    let child: Router;
+    let step: PipelineStep;
+
+    const getScopedStep = () => provider.getPipelineDescription().find(x => x.slot === 'authorize').step as PipelineStep;
+
+    beforeEach(() => {
+      root = new AppRouter(new Container(), new MockHistory(), provider, null);
+      child = root.createChild(new Container());
+      step = createStep('adminOnly');
+      spyOn(step, 'run').and.callThrough();
+      new RouterConfiguration().addAuthorizeStep(step).exportToRouter(child);
+    });
+
+    it('are added to the pipeline of the root router', () => {
+      expect(describeSlot('authorize')).toEqual(['adminOnly']);
+    });
+
+    it('only run when the navigation includes an instruction of the child router', async () => {
+      let runs: string[] = [];
+      class Home { }
+      class Admin {
+        configureRouter(config: RouterConfiguration) {
+          config.addAuthorizeStep({
+            run(instruction: NavigationInstruction, next: Next) {
+              runs.push(instruction.fragment);
+              return next.cancel();
+            }
+          });
+          config.map({ route: 'users', moduleId: './users' });
+        }
+      }
+      const harness = new RouterTestHarness({ './home': Home, './admin': Admin, './users': Home });
+      await harness.configure(config => {
+        config.map([{ route: '', moduleId: './home' }, { route: 'admin', moduleId: './admin' }]);
+      });
+
+      expect((await harness.navigate('')).status).toBe(PipelineStatus.Completed);
+      expect((await harness.navigate('admin/users')).status).toBe(PipelineStatus.Canceled);
+      expect((await harness.navigate('admin/users')).status).toBe(PipelineStatus.Canceled);
+      expect((await harness.navigate('')).status).toBe(PipelineStatus.Completed);
+      expect(runs).toEqual(['admin/users', 'admin/users']);
+    });
+
+    it('are removed when the child router is reset', () => {
+      child.reset();
+      expect(describeSlot('authorize')).toEqual([]);
+    });
+
+    it('are removed when the component owning the child router is replaced', async () => {
+      root.addRoute({ route: 'home', moduleId: 'home' });
+      root.viewPorts.default = { process: () => Promise.resolve(), swap() { /**/ } };
+      const instruction = await root._createNavigationInstruction('home');
+      instruction.plan = {
+        default: { name: 'default', strategy: activationStrategy.replace, config: {}, prevComponent: { childRouter: child } as any }
+      };
+      instruction.addViewPortInstruction('default', activationStrategy.replace, 'home', {});
+
+      await instruction._commitChanges(false);
+      expect(describeSlot('authorize')).toEqual([]);
+    });
+  });
+});
@@ -253,5 +253,118 @@ describe('Pipeline', function() {
       });
     });
 
+    describe('Superseded navigation', () => {
+      let abortController: AbortController;
+
+      beforeEach(() => {
+        abortController = new AbortController();
+        navInstruction.signal = abortController.signal;
+      });
+
+      it('stops before the next step when the instruction signal is aborted', async () => {
+        let secondCalled = 0;
+        const steps: PipelineStep[] = [
+          {
+            run(nav: NavigationInstruction, next: Next) {
+              abortController.abort();
+              return next();
+            }
+          },
+          {
+            run(nav: NavigationInstruction, next: Next) {
+              secondCalled = 1;
+              return next();
+            }
+          }
+        ];
+        for (const step of steps) {
+          pipeline.addStep(step);
+        }
+        const result = await pipeline.run(navInstruction);
+        expect(secondCalled).toBe(0);
+        expect(result.status).toBe(PipelineStatus.Superseded);
+        expect(result.completed).toBe(false);
+      });
+
+      it('reports "superseded" status when a step observing the signal cancels', async () => {
+        pipeline.addStep({
+          run(nav: NavigationInstruction, next: Next) {
+            abortController.abort();
+            return nav.signal.aborted ? next.cancel() : next();
+          }
+        });
+        const result = await pipeline.run(navInstruction);
+        expect(result.status).toBe(PipelineStatus.Superseded);
+      });
+
+      it('keeps "completed" status when the signal is aborted after completion', async () => {
+        pipeline.addStep({
+          run(nav: NavigationInstruction, next: Next) {
+            return next.complete().then(result => {
+              abortController.abort();
+              return result;
+            });
+          }
+        });
+        const result = await pipeline.run(navInstruction);
+        expect(result.status).toBe(PipelineStatus.Completed);
+      });
+    });
+
+
+    describe('Timings', () => {
+      it('attaches the duration of each step to the result', async () => {
+        class NamedStep implements PipelineStep {
+          run(nav: NavigationInstruction, next: Next) {
+            return next();
+          }
+        }
+        pipeline.addStep(new NamedStep());
+        pipeline.addStep({ name: 'custom', run: (nav: NavigationInstruction, next: Next) => next() });
+        pipeline.addStep({
+          slotName: 'authorize',
+          getSteps() {
+            return [{ run: (nav: NavigationInstruction, next: Next) => next.cancel() }];
+          }
+        } as IPipelineSlot);
+
+        const result = await pipeline.run(navInstruction);
+        const timings = result.timings;
+        expect(timings.steps.map(step => step.name)).toEqual(['NamedStep', 'custom', 'anonymous']);
+        expect(timings.steps[2].slot).toBe('authorize');
+        expect(timings.steps[0].slot).toBeUndefined();
+        for (const step of timings.steps) {
+          expect(step.duration).toEqual(jasmine.any(Number));
+          expect(step.duration).toBeLessThanOrEqual(timings.duration);
+        }
+      });
+
+      it('records the timing of a step that throws', async () => {
+        pipeline.addStep({
+          name: 'failing',
+          run() {
+            throw new Error('failed');
+          }
+        });
+
+        const result = await pipeline.run(navInstruction);
+        expect(result.status).toBe(PipelineStatus.Rejected);
+        expect(result.timings.steps.map(step => step.name)).toEqual(['failing']);
+      });
+
+      it('notifies when a step continues to the next step', async () => {
+        const step: PipelineStep = { run: (nav: NavigationInstruction, next: Next) => next() };
+        const lastStep: PipelineStep = { run: (nav: NavigationInstruction, next: Next) => next.complete() };
+        const onStepComplete = jasmine.createSpy('onStepComplete');
+        pipeline.addStep(step);
+        pipeline.addStep(lastStep);
+        pipeline._onStepComplete = onStepComplete;
+
+        await pipeline.run(navInstruction);
+        expect(onStepComplete).toHaveBeenCalledTimes(1);
+        expect(onStepComplete).toHaveBeenCalledWith(step, jasmine.objectContaining({ name: 'anonymous' }), navInstruction);
+      });
+    });
+
   });
 });
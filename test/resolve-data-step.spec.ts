@@ -0,0 +1,89 @@
+import {
+  NavigationInstruction,
+  ResolveDataStep,
+  RouteConfig,
+  Redirect,
+  Router,
+  activationStrategy,
+  Next
+} from '../src/aurelia-router';
+import { ActivationStrategyType } from '../src/activation-strategy';
+import { createNextFn } from '../src/next';
+import { PipelineStatus } from '../src/pipeline-status';
+
+describe('ResolveDataStep', () => {
+  let step: ResolveDataStep;
+  let router: Router;
+  let config: RouteConfig;
+
+  const createInstruction = (previousInstruction?: NavigationInstruction, strategy: ActivationStrategyType = activationStrategy.replace) => {
+    return new NavigationInstruction({
+      fragment: 'users/1',
+      params: { id: '1' },
+      queryParams: { tab: 'info' },
+      config,
+      router,
+      previousInstruction,
+      plan: { default: { name: 'default', strategy, config: {} } }
+    });
+  };
+
+  const run = (instruction: NavigationInstruction) => {
+    const next: Next = createNextFn(instruction, [step.run.bind(step)]);
+    return next();
+  };
+
+  beforeEach(() => {
+    step = new ResolveDataStep();
+    router = {} as Router;
+    config = { route: 'users/:id', moduleId: 'user' };
+  });
+
+  it('runs the resolvers and stores their results', async () => {
+    const user = { name: 'user 1' };
+    const userResolver = jasmine.createSpy('user').and.returnValue(Promise.resolve(user));
+    const permissionsResolver = jasmine.createSpy('permissions').and.returnValue(['read']);
+    config.resolve = { user: userResolver, permissions: permissionsResolver };
+    const instruction = createInstruction();
+
+    const result = await run(instruction);
+
+    expect(userResolver).toHaveBeenCalledWith({ id: '1', tab: 'info' }, instruction);
+    expect(permissionsResolver).toHaveBeenCalledWith({ id: '1', tab: 'info' }, instruction);
+
+    expect(result.status).toBe(PipelineStatus.Completed);
+    expect(instruction.resolvedData).toEqual({ user, permissions: ['read'] });
+    expect(instruction.lifecycleArgs[3]).toBe(instruction.resolvedData);
+  });
+
+  it('cancels when a resolver rejects', async () => {
+    const error = new Error('Not found');
+    config.resolve = { user: () => Promise.reject(error) };
+
+    const result = await run(createInstruction());
+    expect(result.status).toBe(PipelineStatus.Canceled);
+    expect(result.output).toBe(error);
+  });
+
+  it('cancels with the navigation command returned by a resolver', async () => {
+    const redirect = new Redirect('login');
+    config.resolve = { user: () => redirect };
+
+    const result = await run(createInstruction());
+    expect(result.status).toBe(PipelineStatus.Canceled);
+    expect(result.output).toBe(redirect);
+  });
+
+  it('reuses the data of the previous instruction when the route is not reactivated', async () => {
+    const resolver = jasmine.createSpy('user').and.returnValue({ name: 'user 1' });
+    config.resolve = { user: resolver };
+    const previousInstruction = createInstruction();
+    await run(previousInstruction);
+
+    const instruction = createInstruction(previousInstruction, activationStrategy.noChange);
+    await run(instruction);
+
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(instruction.resolvedData).toEqual({ user: { name: 'user 1' } });
+  });
+});
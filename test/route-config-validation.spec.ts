@@ -1,5 +1,6 @@
 import { validateRouteConfig } from '../src/router';
 import { RouteConfig } from '../src/interfaces';
+import { RouterConfiguration, validateRoutes, validateRouterConfiguration } from '../src/aurelia-router';
 
 describe('RouteConfig validation', () => {
   let routeConfig: RouteConfig;
@@ -49,5 +50,95 @@ describe('RouteConfig validation', () => {
       });
     });
   });
-});
 
+  describe('"params" validation', () => {
+    beforeEach(() => {
+      routeConfig = { route: 'users/:id', moduleId: 'user' };
+    });
+
+    it('throws when a param type is unknown', () => {
+      routeConfig.params = { id: 'integer' as any };
+      expect(() => validateRouteConfig(routeConfig)).toThrowError(/Unknown type "integer" for route parameter "id"/);
+    });
+
+    it('accepts built-in types, regular expressions, functions and custom types', () => {
+      routeConfig.params = {
+        a: 'int',
+        b: /^\d+$/,
+        c: (value: string) => value,
+        d: { parse: (value: string) => value }
+      };
+      expect(() => validateRouteConfig(routeConfig)).not.toThrow();
+    });
+
+    it('throws when the query params behavior is unknown', () => {
+      routeConfig.queryParamsBehavior = 'reload' as any;
+      expect(() => validateRouteConfig(routeConfig)).toThrowError(/Unknown "queryParamsBehavior:" "reload"/);
+    });
+  });
+
+  describe('validator', () => {
+    it('reports every problem of the routes at once', () => {
+      const problems = validateRoutes([
+        { name: 'user', route: 'users/:id', moduleID: './user', nav: true },
+        { route: 'home', viewPorts: { main: { moduleId: './main' }, side: {} } },
+        { route: '', redirect: 'hom', layoutView: 'layout.html' },
+        { route: 'admin', moduleId: './admin', children: [{ route: 'users', redirect: 'people' }] }
+      ] as RouteConfig[]);
+
+      expect(problems.map(problem => problem.message)).toEqual([
+        'Invalid Route Config for "users/:id" (user): You must specify a "moduleId:", "redirect:", "navigationStrategy:", or "viewPorts:".',
+        'Invalid Route Config for "users/:id" (user): Unknown key "moduleID", did you mean "moduleId"?',
+        'Invalid Route Config for "users/:id" (user): Dynamic routes must specify an "href:" to be included in the navigation model.',
+        'Invalid Route Config for "home": The "side" view port must specify a "moduleId:".',
+        'Invalid Route Config for "": Redirect routes ignore the layout options "layoutView:".',
+        'Invalid Route Config for "": The redirect target "hom" does not match any route.',
+        'Invalid Route Config for "users": The redirect target "people" does not match any route.'
+      ]);
+    });
+
+    it('resolves redirects to routes and potential child routes', () => {
+      expect(validateRoutes([
+        { route: '', redirect: 'users/5/profile?tab=info' },
+        { route: 'users/:id', moduleId: './user', nav: 1, href: '#/users/me' },
+        { route: 'docs', redirect: 'https://aurelia.io/docs' }
+      ])).toEqual([]);
+    });
+
+    it('reports the error route configs are rejected with when they are added', () => {
+      const invalidRoute = { name: 'users', route: 'users', moduleId: './users', params: { page: 'integer' } } as any as RouteConfig;
+
+      expect(() => validateRouteConfig(invalidRoute))
+        .toThrowError('Invalid Route Config for "users": Unknown type "integer" for route parameter "page".');
+      expect(validateRoutes([invalidRoute])[0].message).toBe(
+        'Invalid Route Config for "users" (users): Unknown type "integer" for route parameter "page".'
+      );
+      expect(() => validateRouteConfig({ name: 'users', moduleId: './users' } as RouteConfig))
+        .toThrowError('Invalid Route Config for "users": You must specify a "route:" pattern.');
+    });
+
+    it('validates the routes mapped by a router configuration', () => {
+      const config = new RouterConfiguration().map([
+        { route: ['', 'home'], moduleId: './home', titel: 'Home' },
+        { route: 'about', moduleId: './about' }
+      ]);
+
+      expect(validateRouterConfiguration(config).map(problem => problem.message)).toEqual([
+        'Invalid Route Config for "", "home": Unknown key "titel", did you mean "title"?'
+      ]);
+    });
+
+    it('does not report custom keys as typos of known keys', () => {
+      const routes = [
+        { route: 'users', moduleId: './users', names: ['people'], children: [{ route: 'new', moduleId: './new', names: [] }] }
+      ] as any as RouteConfig[];
+
+      expect(validateRoutes(routes).length).toBe(2);
+      expect(validateRoutes(routes, true, ['names'])).toEqual([]);
+
+      const config = new RouterConfiguration().map(routes);
+      config.options.customRouteKeys = ['names'];
+      expect(validateRouterConfiguration(config)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import { AppRouter, PipelineProvider, RouteConfig, diagnoseRoutes } from '../src/aurelia-router';
+
+describe('route diagnostics', () => {
+  let router: AppRouter;
+
+  const diagnose = async (routes: RouteConfig[]) => {
+    await router.configure(config => config.map(routes));
+    return diagnoseRoutes(router).map(diagnostic => [diagnostic.kind, ...diagnostic.routes.map(route => route.route)]);
+  };
+
+  beforeEach(() => {
+    router = new AppRouter(new Container(), new MockHistory(), new PipelineProvider(new Container()), null);
+  });
+
+  it('reports routes sharing a name', async () => {
+    expect(await diagnose([
+      { name: 'home', route: ['', 'home'], moduleId: './home' },
+      { name: 'users', route: 'users', moduleId: './users' },
+      { name: 'users', route: 'people', moduleId: './people' }
+    ])).toEqual([['duplicate-name', 'users', 'people']]);
+  });
+
+  it('reports shadowed patterns', async () => {
+    expect(await diagnose([
+      { route: 'users/new', moduleId: './new-user' },
+      { route: 'users/:id', moduleId: './user' },
+      { route: 'users/:name', moduleId: './user-by-name' },
+      { route: 'accounts/:name', moduleId: './account-by-name' },
+      { route: 'accounts/:id', moduleId: './account', params: { id: 'int' } },
+      { route: 'pages/*path', moduleId: './page', priority: 1 },
+      { route: 'pages/about', moduleId: './about' }
+    ])).toEqual([
+      ['shadowed', 'users/:id', 'users/:name'],
+      ['shadowed', 'pages/about', 'pages/*path']
+    ]);
+  });
+
+  it('reports patterns of the same priority and specificity matching the same URLs', async () => {
+    expect(await diagnose([
+      { route: 'users/:id', moduleId: './user' },
+      { route: ':section/new', moduleId: './new' },
+      { route: ':section/edit', moduleId: './edit', priority: 1 },
+      { route: 'users/:id/edit', moduleId: './edit-user' }
+    ])).toEqual([['ambiguous', 'users/:id', ':section/new']]);
+  });
+
+  it('throws instead of warning in strict mode', async () => {
+    const configure = router.configure(config => {
+      config.options.strictRoutes = true;
+      return config.map([
+        { name: 'users', route: 'users', moduleId: './users' },
+        { name: 'users', route: 'people', moduleId: './people' }
+      ]);
+    });
+
+    try {
+      await configure;
+      fail('should have thrown');
+    } catch (ex) {
+      expect(ex.message).toContain('Routes "users" (users) and "people" (users) have the same name');
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import {
+  AppRouter,
+  PipelineProvider,
+  RouteManifest,
+  RouteManifestRoute,
+  RouteRegistry,
+  RouterConfiguration,
+  exportRouteManifest,
+  routeManifestSchema
+} from '../src/aurelia-router';
+
+describe('route manifests', () => {
+  let router: AppRouter;
+  let registry: RouteRegistry;
+  const authGuard = { canActivate: () => true };
+  const chooseModule = (instruction: any) => { instruction.config.moduleId = './chosen'; };
+
+  const manifest: RouteManifest = {
+    title: 'Docs',
+    routes: [
+      { route: ['', 'home'], name: 'home', moduleId: './home', nav: 1, title: 'Home' },
+      {
+        route: 'admin',
+        name: 'admin',
+        moduleId: './admin',
+        nav: 2,
+        settings: { icon: 'lock' },
+        canActivate: ['auth'],
+        children: [{ route: 'users/:id', name: 'user', moduleId: './user', params: { id: 'int' } }]
+      },
+      { route: 'dynamic', name: 'dynamic', navigationStrategy: 'choose' },
+      { route: 'old', redirect: 'home' }
+    ]
+  };
+
+  beforeEach(() => {
+    router = new AppRouter(new Container(), new MockHistory(), new PipelineProvider(new Container()), null);
+    registry = new RouteRegistry().registerGuard('auth', authGuard).registerNavigationStrategy('choose', chooseModule);
+  });
+
+  it('maps the routes of a manifest, looking up guards and navigation strategies', async () => {
+    await router.configure(config => config.mapManifest(JSON.stringify(manifest), registry));
+
+    expect(router.title).toBe('Docs');
+    expect(router.routes.map(route => route.route)).toEqual(['', 'home', 'admin', 'dynamic', 'old']);
+    expect(router.navigation.map(navModel => navModel.title)).toEqual(['Home', undefined]);
+
+    const admin = router.routes[2];
+    expect(admin.canActivate).toEqual([authGuard]);
+    expect(admin.settings).toEqual({ icon: 'lock' });
+    expect(router.routes[3].navigationStrategy).toBe(chooseModule);
+    expect(router.generate('admin/user', { id: 5 })).toBe('#/admin/users/5');
+  });
+
+  it('rejects references to unregistered guards and navigation strategies', () => {
+    expect(() => new RouterConfiguration().mapManifest(manifest))
+      .toThrowError('Unknown guard "auth". Register it with RouteRegistry.registerGuard.');
+  });
+
+  it('exports the routes of a router back to a manifest', async () => {
+    await router.configure(config => config.mapManifest(manifest, registry));
+
+    expect(exportRouteManifest(router, registry)).toEqual(manifest);
+
+    router.addRoute({ route: 'data', moduleId: './data', resolve: { items: () => [] } });
+    expect(() => exportRouteManifest(router, registry))
+      .toThrowError('Route "data" cannot be exported to a manifest: its "resolve:" can\'t be serialized.');
+  });
+
+  it('copies the options of the routes to and from manifests', async () => {
+    const source: RouteManifest = JSON.parse(JSON.stringify(manifest));
+    await router.configure(config => config.mapManifest(source, registry));
+    source.routes[1].settings.icon = 'unlock';
+    expect(router.routes[2].settings).toEqual({ icon: 'lock' });
+
+    const exported = exportRouteManifest(router, registry);
+    exported.routes[1].settings.icon = 'key';
+    exported.routes[1].children[0].params.id = 'string';
+    expect(router.routes[2].settings).toEqual({ icon: 'lock' });
+    expect(exportRouteManifest(router, registry)).toEqual(manifest);
+  });
+
+  it('describes every option of the manifest routes in the schema', () => {
+    // fails to compile when an option is added to or removed from the manifest routes only
+    const routeKeys: Record<keyof RouteManifestRoute, true> = {
+      route: true, name: true, moduleId: true, view: true, redirect: true, viewPorts: true, nav: true, href: true,
+      generationUsesHref: true, title: true, settings: true, caseSensitive: true, priority: true, params: true,
+      activationStrategy: true, queryParamsBehavior: true, keepAlive: true, transition: true, layoutView: true,
+      layoutViewModel: true, layoutModel: true, canActivate: true, canDeactivate: true, navigationStrategy: true, children: true
+    };
+
+    expect(Object.keys(routeManifestSchema.definitions.route.properties).sort()).toEqual(Object.keys(routeKeys).sort());
+  });
+});
@@ -0,0 +1,105 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import { AppRouter, PipelineProvider, RouteConfig, RouteLoader, RoutePreloader } from '../src/aurelia-router';
+import { schedulePreloading } from '../src/route-preloader';
+import { loadComponent } from '../src/utilities-route-loading';
+
+class MockLoader extends RouteLoader {
+  preloaded: string[] = [];
+
+  preload(config: RouteConfig): Promise<any> {
+    this.preloaded.push(config.moduleId);
+    return config.moduleId === 'broken' ? Promise.reject(new Error('Not found')) : Promise.resolve();
+  }
+}
+
+describe('RoutePreloader', () => {
+  let container: Container;
+  let loader: MockLoader;
+  let router: AppRouter;
+
+  const waitForIdle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+  beforeEach(() => {
+    container = new Container();
+    loader = new MockLoader();
+    container.registerInstance(RouteLoader, loader);
+    router = new AppRouter(container, new MockHistory(), new PipelineProvider(container), null);
+  });
+
+  it('preloads the module of each view port once', async () => {
+    const preloader = container.get(RoutePreloader) as RoutePreloader;
+    const config: RouteConfig = {
+      route: 'home',
+      viewPorts: { left: { moduleId: 'menu' }, right: { moduleId: 'home' }, empty: { moduleId: null } }
+    };
+
+    await preloader.preload(config);
+    await preloader.preload(config);
+    await preloader.preload({ route: 'about', viewPorts: { default: { moduleId: 'home' } } });
+
+    expect(loader.preloaded).toEqual(['menu', 'home']);
+  });
+
+  it('retries modules that failed to preload', async () => {
+    const preloader = container.get(RoutePreloader) as RoutePreloader;
+    const config: RouteConfig = { route: 'broken', viewPorts: { default: { moduleId: 'broken' } } };
+
+    await preloader.preload(config);
+    await preloader.whenPreloaded('broken');
+    await preloader.preload(config);
+
+    expect(loader.preloaded).toEqual(['broken', 'broken']);
+  });
+
+  it('resolves the next navigation to a preloaded route with the preloaded component', async () => {
+    const config: RouteConfig = { route: 'home', moduleId: 'home' };
+    const preloadedComponent = { viewModel: {}, childContainer: container.createChild() };
+    spyOn(loader, 'preload').and.returnValue(Promise.resolve(preloadedComponent));
+    spyOn(loader, 'loadRoute').and.callFake(() => Promise.resolve({ viewModel: {}, childContainer: container.createChild() }));
+    router.addRoute(config);
+    await (container.get(RoutePreloader) as RoutePreloader).preload(config);
+
+    const load = async () => loadComponent(loader, await router._createNavigationInstruction('home'), config.viewPorts.default);
+    expect(await load()).toBe(preloadedComponent as any);
+    expect(loader.loadRoute).not.toHaveBeenCalled();
+
+    expect(await load()).not.toBe(preloadedComponent as any);
+    expect(loader.preload).toHaveBeenCalledTimes(1);
+    expect(loader.loadRoute).toHaveBeenCalledTimes(1);
+  });
+
+  it('preloads the route of a nav model for the hover strategies', async () => {
+    router.addRoute({ route: 'home', moduleId: 'home', nav: true });
+    router.addRoute({ route: 'admin', moduleId: 'admin', nav: true, settings: { preload: true } });
+    const [home, admin] = router.navigation;
+
+    await home.preload();
+    expect(loader.preloaded).toEqual([]);
+
+    router.options.preloadingStrategy = 'on-nav-model-hover';
+    await home.preload();
+    expect(loader.preloaded).toEqual(['home']);
+
+    router.options.preloadingStrategy = (config: RouteConfig) => !!config.settings && config.settings.preload;
+    await home.preload();
+    await admin.preload();
+    expect(loader.preloaded).toEqual(['home', 'admin']);
+  });
+
+  it('preloads the routes of the routers of a navigation once idle', async () => {
+    router.addRoute({ route: 'home', moduleId: 'home' });
+    router.addRoute({ route: 'admin', moduleId: 'admin', children: [{ route: 'users', moduleId: 'users' }] });
+    const instruction = { getAllInstructions: () => [{ router }] } as any;
+
+    schedulePreloading(router, instruction);
+    await waitForIdle();
+    expect(loader.preloaded).toEqual([]);
+
+    router.options.preloadingStrategy = 'all-after-idle';
+    schedulePreloading(router, instruction);
+    expect(loader.preloaded).toEqual([]);
+    await waitForIdle();
+    expect(loader.preloaded).toEqual(['home', 'admin', 'users']);
+  });
+});
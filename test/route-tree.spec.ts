@@ -0,0 +1,85 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import { AppRouter, PipelineProvider, RouteConfig, Router } from '../src/aurelia-router';
+
+describe('route tree', () => {
+  let router: AppRouter;
+
+  const routes: RouteConfig[] = [
+    { route: ['', 'home'], name: 'home', moduleId: './home', nav: true, title: 'Home' },
+    { route: 'users', name: 'users', moduleId: './users', nav: true, title: 'Users' },
+    {
+      route: 'admin',
+      name: 'admin',
+      viewPorts: { default: { moduleId: './admin' }, sidebar: { moduleId: null } },
+      children: [{ route: 'settings', name: 'settings', moduleId: './settings' }]
+    },
+    { route: 'old', redirect: 'home' }
+  ];
+
+  const navigateToUser = async (childRouter: Router) => {
+    const instruction = await router._createNavigationInstruction('users/5?tab=info');
+    const childInstruction = await childRouter._createNavigationInstruction(instruction.getWildcardPath(), instruction);
+    instruction.viewPortInstructions = {
+      default: { moduleId: './users', childRouter, childNavigationInstruction: childInstruction }
+    } as any;
+    childInstruction.viewPortInstructions = { default: { moduleId: './user' } } as any;
+    router.currentInstruction = instruction;
+  };
+
+  beforeEach(async () => {
+    router = new AppRouter(new Container(), new MockHistory(), new PipelineProvider(new Container()), null);
+    await router.configure(config => config.map(routes));
+  });
+
+  it('describes the routes of a router and of its declared child routers', () => {
+    router.refreshNavigation();
+
+    expect(router.getRouteTree()).toEqual([
+      { name: 'home', route: ['', 'home'], viewPorts: { default: './home' }, moduleIds: ['./home'], nav: true, href: '#/', children: [] },
+      { name: 'users', route: 'users', viewPorts: { default: './users' }, moduleIds: ['./users'], nav: true, href: '#/users', children: [] },
+      {
+        name: 'admin',
+        route: 'admin',
+        viewPorts: { default: './admin', sidebar: null },
+        moduleIds: ['./admin'],
+        nav: false,
+        children: [
+          { name: 'settings', route: 'settings', viewPorts: { default: './settings' }, moduleIds: ['./settings'], nav: false, children: [] }
+        ]
+      },
+      { name: undefined, route: 'old', viewPorts: {}, moduleIds: [], nav: false, redirect: 'home', children: [] }
+    ]);
+  });
+
+  it('includes the child routers of the loaded view models and describes the active routes', async () => {
+    expect(router.describeActiveState()).toEqual([]);
+
+    const childRouter = router.createChild(new Container());
+    await childRouter.configure(config => config.map({ route: ':id', name: 'user', moduleId: './user' }));
+    await navigateToUser(childRouter);
+
+    expect(router.getRouteTree()[1].children.map(node => node.name)).toEqual(['user']);
+    expect(router.describeActiveState()).toEqual([
+      {
+        name: 'users',
+        route: 'users',
+        fragment: 'users/5',
+        params: {},
+        queryParams: { tab: 'info' },
+        viewPorts: { default: './users' },
+        depth: 0
+      },
+      {
+        name: 'user',
+        route: ':id',
+        fragment: '5',
+        params: { id: '5' },
+        queryParams: { tab: 'info' },
+        viewPorts: { default: './user' },
+        depth: 1
+      }
+    ]);
+    expect(childRouter.describeActiveState()).toEqual([]);
+  });
+});
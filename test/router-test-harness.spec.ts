@@ -0,0 +1,94 @@
+import { PipelineStatus, RouterConfiguration } from '../src/aurelia-router';
+import { RouterTestHarness } from '../src/testing';
+
+describe('RouterTestHarness', () => {
+  let harness: RouterTestHarness;
+
+  class Home {
+    canDeactivate() { return true; }
+    // tslint:disable-next-line
+    deactivate() { }
+  }
+
+  class Users {
+    configureRouter(config: RouterConfiguration) {
+      config.map([
+        { route: '', name: 'user-list', moduleId: './user-list' },
+        { route: ':id', name: 'user', moduleId: './user' }
+      ]);
+    }
+    // tslint:disable-next-line
+    activate() { }
+  }
+
+  class User {
+    canActivate(params: { id: string }) { return params.id !== 'locked'; }
+    // tslint:disable-next-line
+    activate() { }
+  }
+
+  class UserList { }
+
+  beforeEach(async () => {
+    harness = new RouterTestHarness({ './home': Home, './users': Users, './user-list': UserList, './user': User });
+    await harness.configure(config => {
+      config.title = 'App';
+      config.map([
+        { route: '', name: 'home', moduleId: './home', title: 'Home' },
+        { route: 'users', name: 'users', moduleId: './users', title: 'Users' },
+        { route: 'people', redirect: 'users' }
+      ]);
+    });
+  });
+
+  it('navigates without a DOM, recording lifecycle hooks and view port calls', async () => {
+    let result = await harness.navigate('');
+    expect(result.status).toBe(PipelineStatus.Completed);
+    expect(harness.calls).toEqual(['process default ./home', 'swap default ./home']);
+
+    result = await harness.navigate('users/5');
+    expect(result.status).toBe(PipelineStatus.Completed);
+    harness.assertCallOrder([
+      'canDeactivate ./home',
+      'canActivate ./user',
+      'deactivate ./home',
+      'activate ./users',
+      'activate ./user',
+      'process default ./users',
+      'process default ./user',
+      'swap default ./users'
+    ]);
+    expect(harness.router.currentInstruction.getAllInstructions().map(instruction => instruction.fragment)).toEqual(['users/5', '5']);
+    expect(harness.history.getAbsoluteRoot()).toBe('/');
+  });
+
+  it('resolves to the results of redirected and canceled navigations', async () => {
+    await harness.navigate('');
+
+    expect((await harness.navigate('people')).status).toBe(PipelineStatus.Completed);
+    expect(harness.router.currentInstruction.fragment).toBe('users');
+
+    let result = await harness.navigate('users/locked');
+    expect(result.status).toBe(PipelineStatus.Canceled);
+    expect(() => harness.assertCallOrder(['canActivate ./user', 'activate ./user']))
+      .toThrowError('Expected the calls ["canActivate ./user","activate ./user"] in this order, '
+        + 'but "activate ./user" was missing from ["canActivate ./user"].');
+  });
+
+  it('records the hooks of view model instances without changing them', async () => {
+    const home = new Home();
+    harness = new RouterTestHarness({ './home': home, './users': Users, './user-list': UserList });
+    await harness.configure(config => {
+      config.map([
+        { route: '', name: 'home', moduleId: './home' },
+        { route: 'users', name: 'users', moduleId: './users' }
+      ]);
+    });
+
+    await harness.navigate('');
+    await harness.navigate('users');
+    harness.assertCallOrder(['canDeactivate ./home', 'deactivate ./home']);
+    expect(Object.keys(home)).toEqual([]);
+    expect(home.deactivate).toBe(Home.prototype.deactivate);
+  });
+});
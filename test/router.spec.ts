@@ -1,14 +1,20 @@
 import { MockHistory, MockInstruction } from './shared';
 import { History } from 'aurelia-history';
+import { RouteRecognizer } from 'aurelia-route-recognizer';
+import * as LogManager from 'aurelia-logging';
 import { Container } from 'aurelia-dependency-injection';
+import { EventAggregator } from 'aurelia-event-aggregator';
 import {
   Router,
   NavModel,
   RouteConfig,
   PipelineProvider,
   AppRouter,
-  NavigationInstruction
+  NavigationInstruction,
+  KeepAliveCache,
+  RouterConfiguration
 } from '../src/aurelia-router';
+import { loadComponent } from '../src/utilities-route-loading';
 
 let absoluteRoot = 'http://aurelia.io/docs/';
 
@@ -145,6 +151,79 @@ describe('the router', () => {
           done();
         });
     });
+
+    it('should serialize params with the route params schema', async () => {
+      const dateType = {
+        parse: (value: string) => new Date(value),
+        serialize: (value: Date) => value.toISOString().slice(0, 10)
+      };
+      const routes: RouteConfig[] = [
+        { name: 'user', route: 'users/:id', moduleId: './user', params: { id: 'int' } },
+        { name: 'day', route: 'days/:date', moduleId: './day', params: { date: dateType } }
+      ];
+      await router.configure(config => config.map(routes));
+
+      expect(router.generate('user', { id: 5, tab: 'info' })).toBe('#/users/5?tab=info');
+      expect(router.generate('day', { date: new Date(Date.UTC(2019, 4, 3)) })).toBe('#/days/2019-05-03');
+    });
+
+    it('should add query params and an anchor from the options', async () => {
+      await router.configure(config => config.map({ name: 'user', route: 'users/:id', moduleId: './user' }));
+
+      expect(router.generate('user', { id: 5, tab: 'info' }, { query: { sort: ['name', 'age'] }, fragment: 'details' }))
+        .toBe('#/users/5?sort%5B%5D=name&sort%5B%5D=age&tab=info#details');
+      expect(router.generate('user', { id: 5 }, { query: { tab: 'info' } })).toBe('#/users/5?tab=info');
+    });
+
+    it('should serialize query params with the configured query serializer', async () => {
+      const child = router.createChild(new Container());
+      await router.configure(config => {
+        config.options.querySerializer = query => Object.keys(query).map(key => `${key}=${[].concat(query[key]).join(',')}`).join('&');
+        return config.map({ name: 'users', route: 'users', moduleId: './users' });
+      });
+
+      expect(child.generate('users', {}, { query: { sort: ['name', 'age'] } })).toBe('#/users?sort=name,age');
+    });
+
+    it('should parse and serialize query params with the configured query string codec', async () => {
+      const child = router.createChild(new Container());
+      await router.configure(config => {
+        config.options.queryStringCodec = {
+          parse: queryString => queryString ? JSON.parse(decodeURIComponent(queryString.slice(2))) : {},
+          serialize: query => `q=${encodeURIComponent(JSON.stringify(query))}`
+        };
+        return config.map({ name: 'users', route: 'users', moduleId: './users' });
+      });
+      await child.configure(config => config.map({ name: 'user', route: 'user', moduleId: './user' }));
+
+      const url = router.generate('users', { filter: { tags: ['a'], active: true } });
+      expect(url).toBe(`#/users?q=${encodeURIComponent('{"filter":{"tags":["a"],"active":true}}')}`);
+
+      const instruction = await router._createNavigationInstruction(url.slice(2));
+      expect(instruction.queryParams).toEqual({ filter: { tags: ['a'], active: true } });
+      const childInstruction = await child._createNavigationInstruction('user?q=%7B%22page%22%3A2%7D');
+      expect(childInstruction.queryParams).toEqual({ page: 2 });
+    });
+
+    it('should pass query params and anchors of navigateToRoute through', async () => {
+      spyOn(history, 'navigate');
+      await router.configure(config => config.map({ name: 'user', route: 'users/:id', moduleId: './user' }));
+
+      const options = { replace: true, query: { tab: 'info' }, fragment: 'details' };
+      router.navigateToRoute('user', { id: 5 }, options);
+      expect(history.navigate).toHaveBeenCalledWith('#/users/5?tab=info#details', options);
+    });
+
+    it('should add the auxiliary routes from the options', async () => {
+      await router.configure(config => config.map([
+        { name: 'inbox', route: 'inbox', moduleId: './inbox' },
+        { name: 'chat', route: 'chat/:id', moduleId: './chat' },
+        { name: 'status', route: 'status', moduleId: './status' }
+      ]));
+
+      const auxiliary = { sidebar: { route: 'chat', params: { id: 42 } }, footer: { route: 'status' } };
+      expect(router.generate('inbox', { page: 2 }, { auxiliary })).toBe('#/inbox(sidebar:chat/42//footer:status)?page=2');
+    });
   });
 
   describe('navigate', () => {
@@ -438,6 +517,139 @@ describe('the router', () => {
           .catch(() => done());
       });
     });
+
+    describe('route params constraints', () => {
+      it('converts params accepted by the constraints', async () => {
+        await router.configure(config => config.map({
+          name: 'test',
+          route: 'test/:id/:flag/:slug',
+          moduleId: './test',
+          params: { id: 'int', flag: 'boolean', slug: /^[a-z-]+$/ }
+        }));
+
+        const instruction = await router._createNavigationInstruction('test/42/true/hello-world?foo=1');
+        expect(instruction.params).toEqual({ id: 42, flag: true, slug: 'hello-world' });
+        expect(instruction.lifecycleArgs[0]).toEqual({ id: 42, flag: true, slug: 'hello-world', foo: '1' });
+      });
+
+      it('falls through to the next matching route when the params are rejected', async () => {
+        const routes: RouteConfig[] = [
+          { name: 'user', route: 'users/:id', moduleId: './user', params: { id: 'int' } },
+          { name: 'users', route: 'users/*path', moduleId: './users' }
+        ];
+        await router.configure(config => config.map(routes));
+
+        const byId = await router._createNavigationInstruction('users/12');
+        expect(byId.config.name).toBe('user');
+        expect(byId.params.id).toBe(12);
+
+        const byPath = await router._createNavigationInstruction('users/new?foo=1');
+        expect(byPath.config.name).toBe('users');
+        expect(byPath.params.path).toBe('new');
+        expect(byPath.queryParams).toEqual({ foo: '1' });
+      });
+
+      it('reuses the recognizers of the remaining routes once params are rejected', async () => {
+        const routes: RouteConfig[] = [
+          { name: 'user', route: 'users/:id', moduleId: './user', params: { id: 'int' } },
+          { name: 'users', route: 'users/*path', moduleId: './users' }
+        ];
+        await router.configure(config => config.map(routes));
+        await router._createNavigationInstruction('users/new');
+
+        const add = spyOn(RouteRecognizer.prototype, 'add').and.callThrough();
+        expect((await router._createNavigationInstruction('users/edit')).config.name).toBe('users');
+        expect(add).not.toHaveBeenCalled();
+      });
+
+      it('applies the constraints to routes with child routes', async () => {
+        await router.configure(config => config.map({
+          name: 'user',
+          route: 'users/:id',
+          moduleId: './user',
+          params: { id: (value: string) => value === 'me' ? 0 : undefined }
+        }));
+
+        const instruction = await router._createNavigationInstruction('users/me/profile');
+        expect(instruction.params.id).toBe(0);
+        expect(instruction.params.childRoute).toBe('profile');
+
+        try {
+          await router._createNavigationInstruction('users/you/profile');
+          fail('should have rejected');
+        } catch (ex) {
+          expect(ex.toString()).toContain('Route not found');
+        }
+      });
+
+      it('matches routes with a higher priority first', async () => {
+        const routes: RouteConfig[] = [
+          { name: 'user', route: 'users/:id', moduleId: './user', priority: 1, params: { id: 'int' } },
+          { name: 'new', route: 'users/new', moduleId: './new-user' },
+          { name: 'page', route: '*path', moduleId: './page', priority: 2, params: { path: /^pages\// } }
+        ];
+        await router.configure(config => config.map(routes));
+
+        expect((await router._createNavigationInstruction('users/12')).config.name).toBe('user');
+        expect((await router._createNavigationInstruction('users/new')).config.name).toBe('new');
+        expect((await router._createNavigationInstruction('pages/users/12')).config.name).toBe('page');
+      });
+
+      it('uses the unknown route handler when the params are rejected', async () => {
+        await router.configure(config => {
+          config.map({ name: 'user', route: 'users/:id', moduleId: './user', params: { id: 'int' } });
+          config.mapUnknownRoutes('not-found');
+          return config;
+        });
+
+        const instruction = await router._createNavigationInstruction('users/abc');
+        expect(instruction.config.moduleId).toBe('not-found');
+        expect(instruction.params.path).toBe('users/abc');
+      });
+    });
+  });
+
+  describe('auxiliary routes', () => {
+    beforeEach(async () => {
+      await router.configure(config => config.map([
+        { name: 'inbox', route: 'inbox', moduleId: './inbox' },
+        { name: 'chat', route: 'chat/:id', moduleId: './chat' },
+        { name: 'sidebar', route: 'sidebar', viewPorts: { main: { moduleId: './main' }, sidebar: { moduleId: './menu' } } }
+      ]));
+    });
+
+    it('recognize a route for each targeted view port', async () => {
+      const instruction = await router._createNavigationInstruction('sidebar(sidebar:chat/42)?unread=true');
+      expect(instruction.config.name).toBe('sidebar');
+      expect(instruction.fragment).toBe('sidebar');
+
+      const chat = instruction.auxiliaryInstructions.sidebar;
+      expect(chat.config.name).toBe('chat');
+      expect(chat.params).toEqual({ id: '42' });
+      expect(instruction.getRouteInstruction('sidebar')).toBe(chat);
+      expect(instruction.getRouteInstruction('main')).toBe(instruction);
+
+      const viewPortInstruction = instruction.addViewPortInstruction('sidebar', 'replace', './chat', {});
+      expect(viewPortInstruction.lifecycleArgs[0]).toEqual({ id: '42', unread: 'true' });
+      expect(viewPortInstruction.lifecycleArgs[2]).toBe(chat);
+    });
+
+    it('reject unknown auxiliary routes', async () => {
+      try {
+        await router._createNavigationInstruction('inbox(sidebar:unknown)');
+        fail('should have rejected');
+      } catch (ex) {
+        expect(ex.toString()).toContain('Route not found: unknown');
+      }
+    });
+
+    it('keep parentheses that are not auxiliary routes in the path', async () => {
+      router.addRoute({ name: 'note', route: 'notes/:title', moduleId: './note' });
+
+      const instruction = await router._createNavigationInstruction('notes/draft(2)');
+      expect(instruction.params.title).toBe('draft(2)');
+      expect(instruction.auxiliaryInstructions).toEqual({});
+    });
   });
 
   describe('configure', () => {
@@ -492,6 +704,168 @@ describe('the router', () => {
     });
   });
 
+  describe('declared child routes', () => {
+    const adminRoute = (children: RouteConfig['children']): RouteConfig => ({
+      name: 'admin',
+      route: 'admin/:org',
+      moduleId: 'admin',
+      children
+    });
+
+    it('generates URLs of child routes before the parent route is activated', () => {
+      router.addRoute(adminRoute([
+        { name: 'users', route: 'users/:id', moduleId: 'users' },
+        {
+          name: 'settings',
+          route: 'settings',
+          moduleId: 'settings',
+          children: [{ name: 'profile', route: 'profile', moduleId: 'profile' }]
+        }
+      ]));
+
+      expect(router.generate('admin/users', { org: 'acme', id: 1 })).toBe('#/admin/acme/users/1');
+      expect(router.generate('admin/users', { org: 'acme', id: 1, tab: 'roles' })).toBe('#/admin/acme/users/1?tab=roles');
+      expect(router.generate('admin/settings/profile', { org: 'acme' })).toBe('#/admin/acme/settings/profile');
+      expect(router.hasRoute('admin/settings/profile')).toBe(true);
+      expect(router.hasRoute('admin/unknown')).toBe(false);
+      expect(() => router.generate('admin/unknown', { org: 'acme' })).toThrow();
+    });
+
+    it('resolves child routes declared with a function when configuring the router', async () => {
+      let children = jasmine.createSpy('children').and.returnValue(Promise.resolve([
+        { name: 'users', route: 'users', moduleId: 'users' }
+      ]));
+
+      await router.configure(config => config.map(adminRoute(children)));
+
+      expect(children).toHaveBeenCalledTimes(1);
+      expect(router.generate('admin/users', { org: 'acme' })).toBe('#/admin/acme/users');
+    });
+
+    it('logs the failure of child routes declared with a function by a route added after configuration', async () => {
+      const error = new Error('offline');
+      spyOn(LogManager.getLogger('router'), 'error');
+      const config = adminRoute(() => Promise.reject(error));
+      router.addRoute(config);
+
+      try {
+        await router._loadChildRoutes(config);
+        fail('should have rejected');
+      } catch (ex) {
+        expect(ex).toBe(error);
+      }
+      expect(LogManager.getLogger('router').error)
+        .toHaveBeenCalledWith('Failed to load the child routes of route "admin/:org".', error);
+    });
+
+    it('does not modify the declared route configs', () => {
+      const users: RouteConfig = { name: 'users', route: 'users', moduleId: 'users' };
+      router.addRoute(adminRoute([users]));
+
+      expect(users).toEqual({ name: 'users', route: 'users', moduleId: 'users' });
+    });
+
+    it('registers the declared routes with the child router of the loaded view model', async () => {
+      const config = adminRoute([{ name: 'users', route: 'users', moduleId: 'users' }]);
+      router.addRoute(config);
+      const childRouter = router.createChild(new Container());
+      const component: any = {
+        viewModel: {},
+        childContainer: { getChildRouter: () => childRouter }
+      };
+      const routeLoader = { loadRoute: () => Promise.resolve(component) };
+
+      const instruction = await router._createNavigationInstruction('admin/acme/users');
+      await loadComponent(routeLoader as any, instruction, config.viewPorts.default);
+
+      expect(component.childRouter).toBe(childRouter);
+      expect(childRouter.hasOwnRoute('users')).toBe(true);
+    });
+  });
+
+  describe('dynamic routes', () => {
+    let events: EventAggregator;
+    let changes: Router[];
+
+    beforeEach(async () => {
+      events = new EventAggregator();
+      changes = [];
+      events.subscribe('router:routes:changed', (event: { router: Router }) => changes.push(event.router));
+      router = new AppRouter(new Container(), history, new PipelineProvider(new Container()), events);
+      await router.configure(config => config.map([
+        { name: 'home', route: ['', 'home'], moduleId: './home', nav: 1 },
+        { name: 'users', route: 'users/:id', moduleId: './users', nav: 2, href: '#/users/me' },
+        { name: 'about', route: 'about', moduleId: './about', nav: 3 }
+      ]));
+    });
+
+    it('remove routes by name', async () => {
+      expect(router.removeRoute('home')).toBe(true);
+      expect(router.removeRoute('home')).toBe(false);
+
+      expect(router.routes.map(route => route.name)).toEqual(['users', 'about']);
+      expect(router.navigation.map(navModel => navModel.config.name)).toEqual(['users', 'about']);
+      expect(router.hasOwnRoute('home')).toBe(false);
+      expect(router.hasOwnRoute('about')).toBe(true);
+      try {
+        await router._createNavigationInstruction('home');
+        fail('should have rejected');
+      } catch (ex) {
+        expect(ex.toString()).toContain('Route not found');
+      }
+      expect(changes).toEqual([router]);
+    });
+
+    it('remove the pipeline steps of the declared child router and the kept alive components of removed routes', () => {
+      const adminStep = { name: 'adminOnly', run: (instruction: NavigationInstruction, next: any) => next() };
+      const admin = { viewModel: { deactivate: jasmine.createSpy('deactivate') } } as any;
+      router.addRoute({ name: 'admin', route: 'admin', moduleId: './admin', keepAlive: true, children: [] });
+      const entry = router._recognizerEntries.find(x => x.config.name === 'admin');
+      new RouterConfiguration().addAuthorizeStep(adminStep).exportToRouter(entry.childRouter);
+      const cache = router.container.get(KeepAliveCache) as KeepAliveCache;
+      cache.add(entry.config, './admin', admin);
+      const pipelineProvider = (router as AppRouter).pipelineProvider;
+      expect(pipelineProvider.getPipelineDescription().map(x => x.name)).toContain('adminOnly');
+
+      router.removeRoute('admin');
+      expect(pipelineProvider.getPipelineDescription().map(x => x.name)).not.toContain('adminOnly');
+      expect(cache.get(entry.config, './admin')).toBeUndefined();
+      expect(admin.viewModel.deactivate).toHaveBeenCalledTimes(1);
+    });
+
+    it('replace routes keeping their position', async () => {
+      router.replaceRoute('users', { name: 'users', route: 'people/:id', moduleId: './people', nav: 4, href: '#/people/me' });
+
+      expect(router.routes.map(route => route.route)).toEqual(['', 'home', 'people/:id', 'about']);
+      expect(router.navigation.map(navModel => navModel.config.name)).toEqual(['home', 'about', 'users']);
+      expect(router.generate('users', { id: 5 })).toBe('#/people/5');
+      const instruction = await router._createNavigationInstruction('people/5');
+      expect(instruction.config.moduleId).toBe('./people');
+      expect(changes).toEqual([router]);
+      expect(() => router.replaceRoute('unknown', { route: 'unknown', moduleId: './unknown' })).toThrow();
+    });
+
+    it('notify a batch of changes once', () => {
+      router.updateRoutes(r => {
+        r.removeRoute('about');
+        r.addRoute({ name: 'settings', route: 'settings', moduleId: './settings', nav: 0 });
+      });
+
+      expect(router.navigation.map(navModel => navModel.config.name)).toEqual(['settings', 'home', 'users']);
+      expect(changes).toEqual([router]);
+    });
+
+    it('notify routes added at runtime', () => {
+      expect(changes).toEqual([]);
+
+      router.addRoute({ name: 'settings', route: 'settings', moduleId: './settings' });
+      expect(changes).toEqual([router]);
+
+      router.addRoute({ name: 'help', route: ['help', 'faq'], moduleId: './help' });
+      expect(changes).toEqual([router, router]);
+    });
+  });
+
   describe('refreshNavigation', () => {
     let staticHref: string;
 
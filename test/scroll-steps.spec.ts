@@ -0,0 +1,88 @@
+import { Container } from 'aurelia-dependency-injection';
+import { MockHistory } from './shared';
+import {
+  AppRouter,
+  PipelineProvider,
+  RouterConfiguration,
+  ScrollHandler,
+  ScrollPosition,
+  SaveScrollPositionStep,
+  RestoreScrollPositionStep,
+  Next
+} from '../src/aurelia-router';
+
+class FakeScrollHandler extends ScrollHandler {
+  position: ScrollPosition = { x: 0, y: 0 };
+
+  getScrollPosition(): ScrollPosition {
+    return this.position;
+  }
+
+  scrollTo(position: ScrollPosition): void {
+    this.position = position;
+  }
+}
+
+describe('scroll position steps', () => {
+  let container: Container;
+  let provider: PipelineProvider;
+  let router: AppRouter;
+  let scrollHandler: FakeScrollHandler;
+  let next: Next;
+
+  const navigate = async (navigationTracker: number, flag: 'isNavigatingNew' | 'isNavigatingBack' | 'isNavigatingForward', settings?: any) => {
+    const instruction = { router, config: { route: '', settings }, getAllInstructions: () => [instruction] } as any;
+    await container.get(SaveScrollPositionStep).run(instruction, next);
+    router.currentNavigationTracker = navigationTracker;
+    router.isNavigatingNew = router.isNavigatingBack = router.isNavigatingForward = false;
+    router[flag] = true;
+    await container.get(RestoreScrollPositionStep).run(instruction, next);
+  };
+
+  beforeEach(() => {
+    container = new Container();
+    scrollHandler = new FakeScrollHandler();
+    container.registerInstance(ScrollHandler, scrollHandler);
+    provider = new PipelineProvider(container);
+    router = new AppRouter(container, new MockHistory(), provider, null);
+    next = jasmine.createSpy('next').and.returnValue(Promise.resolve()) as any;
+  });
+
+  it('are anchored to the deactivation and commit steps when enabled', () => {
+    new RouterConfiguration().exportToRouter(router);
+    expect(provider.getPipelineDescription().map(x => x.name)).not.toContain('SaveScrollPositionStep');
+
+    const config = new RouterConfiguration();
+    config.options.scrollBehavior = true;
+    config.exportToRouter(router);
+    const names = provider.getPipelineDescription().map(x => x.name);
+    expect(names.indexOf('SaveScrollPositionStep')).toBe(names.indexOf('DeactivatePreviousStep') - 1);
+    expect(names.indexOf('RestoreScrollPositionStep')).toBe(names.indexOf('CommitChangesStep') + 1);
+  });
+
+  it('restore scroll positions on back and forward navigations, and scroll to the top of new ones', async () => {
+    router.options.scrollBehavior = 'restore';
+    await navigate(1, 'isNavigatingNew');
+    scrollHandler.position = { x: 0, y: 100 };
+    await navigate(2, 'isNavigatingNew');
+    expect(scrollHandler.position).toEqual({ x: 0, y: 0 });
+
+    scrollHandler.position = { x: 0, y: 250 };
+    await navigate(1, 'isNavigatingBack');
+    expect(scrollHandler.position).toEqual({ x: 0, y: 100 });
+    await navigate(2, 'isNavigatingForward');
+    expect(scrollHandler.position).toEqual({ x: 0, y: 250 });
+    expect(next).toHaveBeenCalledTimes(8);
+  });
+
+  it('follow the scroll behavior of the route settings', async () => {
+    router.options.scrollBehavior = true;
+    await navigate(1, 'isNavigatingNew');
+    scrollHandler.position = { x: 0, y: 100 };
+    await navigate(2, 'isNavigatingNew', { scrollBehavior: 'none' });
+    expect(scrollHandler.position).toEqual({ x: 0, y: 100 });
+
+    await navigate(1, 'isNavigatingBack', { scrollBehavior: 'top' });
+    expect(scrollHandler.position).toEqual({ x: 0, y: 0 });
+  });
+});